@@ -14,6 +14,8 @@ import compress from 'astro-compress';
 import type { AstroIntegration } from 'astro';
 
 import astrowind from './vendor/integration';
+import configBuilder, { type Config } from './vendor/integration/utils/configBuilder';
+import sitemapAlternates from './vendor/integration/utils/sitemapAlternates';
 
 import { readingTimeRemarkPlugin, responsiveTablesRehypePlugin, lazyImagesRehypePlugin } from './src/utils/frontmatter';
 
@@ -25,18 +27,11 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const configPath = path.join(__dirname, 'src/config.yaml');
 const configContent = fs.readFileSync(configPath, 'utf-8');
 
-interface AstroConfig {
-  i18n: {
-    locales: string[];
-    defaultLocale: string;
-  };
-}
-
-const config = yaml.load(configContent) as AstroConfig;
 // configBuilder validates i18n configuration; if validation passes,
-// config.i18n is guaranteed to exist with valid locales/defaultLocale.
-// No fallback needed - missing i18n section causes early build failure.
-const i18nConfig = config.i18n;
+// i18nConfig is guaranteed to have valid locales/defaultLocale and settings for every locale.
+// No fallback needed - missing or invalid i18n section causes early build failure.
+// Pseudo locales are left out: the astrowind integration adds them once it knows the Astro command.
+const { SITE: siteConfig, I18N: i18nConfig } = configBuilder(yaml.load(configContent) as Config);
 
 const hasExternalScripts = false;
 const whenExternalScripts = (items: (() => AstroIntegration) | (() => AstroIntegration)[] = []) =>
@@ -53,7 +48,7 @@ export default defineConfig({
     locales: i18nConfig.locales,
     defaultLocale: i18nConfig.defaultLocale,
     routing: {
-      prefixDefaultLocale: true,
+      prefixDefaultLocale: i18nConfig.prefixDefaultLocale,
       redirectToDefaultLocale: false,
     },
   },
@@ -62,7 +57,19 @@ export default defineConfig({
     tailwind({
       applyBaseStyles: false,
     }),
-    sitemap(),
+    sitemap({
+      i18n: {
+        defaultLocale: i18nConfig.defaultLocale,
+        locales: Object.fromEntries(
+          i18nConfig.locales.map((locale) => [locale, i18nConfig.localeSettings[locale].lang])
+        ),
+      },
+      // Per-locale 404 pages are only reached through the host rules
+      filter: (page) => !/\/404\/?$/.test(new URL(page).pathname),
+      // Use the hreflang links of each built page, so translated slugs are paired too
+      // Built pages are read from the `outDir` recorded by the astrowind integration
+      serialize: sitemapAlternates({ base: siteConfig.base }),
+    }),
     mdx(),
     icon({
       include: {
@@ -1,5 +1,7 @@
-import { z, defineCollection } from 'astro:content';
+import { z, defineCollection, reference } from 'astro:content';
 import { glob } from 'astro/loaders';
+import { I18N } from 'astrowind:config';
+import { translatedGlob } from '../../vendor/integration/utils/translationLoader';
 
 const metadataDefinition = () =>
   z
@@ -47,11 +49,22 @@ const metadataDefinition = () =>
     .optional();
 
 const postCollection = defineCollection({
-  loader: glob({ pattern: ['**/*.md', '**/*.mdx'], base: 'src/data/post' }),
+  loader: translatedGlob({
+    pattern: ['**/*.md', '**/*.mdx'],
+    base: 'src/data/post',
+    defaultLocale: I18N.defaultLocale,
+  }),
   schema: z.object({
     publishDate: z.date().optional(),
     updateDate: z.date().optional(),
     draft: z.boolean().optional(),
+    translationKey: z.string().optional(),
+    // Hash of the source of a machine translation (see `bun run translate:content`)
+    sourceHash: z.string().optional(),
+    // Default-locale version a translation was made from: its hash or its `updateDate` (outdated once it changes)
+    translatedFrom: z.union([z.string(), z.date()]).optional(),
+    // Set by the loader, compared with the default-locale original (see `getTranslationStatus`)
+    translationStatus: z.enum(['original', 'current', 'outdated']).optional(),
 
     title: z.string(),
     excerpt: z.string().optional(),
@@ -59,7 +72,15 @@ const postCollection = defineCollection({
 
     category: z.string().optional(),
     tags: z.array(z.string()).optional(),
-    author: z.string().optional(),
+    // One or more entries of `src/data/authors/`, by file name: `author: jane-doe` or `author: [jane-doe, john-smith]`
+    author: z.union([reference('authors'), z.array(reference('authors'))]).optional(),
+    // Multi-part posts: series name (shared by its parts in a locale) and position of the part
+    series: z
+      .object({
+        name: z.string(),
+        order: z.number().int(),
+      })
+      .optional(),
 
     metadata: metadataDefinition(),
   }),
@@ -69,11 +90,36 @@ const pagesCollection = defineCollection({
   loader: glob({ pattern: ['**/*.md', '**/*.mdx'], base: 'src/data/pages' }),
   schema: z.object({
     title: z.string(),
+    draft: z.boolean().optional(),
+    translationKey: z.string().optional(),
+    // Hash of the source of a machine translation (see `bun run translate:content`)
+    sourceHash: z.string().optional(),
     // optional fields: description, layout, etc.
   }),
 });
 
+const authorsCollection = defineCollection({
+  loader: glob({ pattern: ['**/*.yaml', '**/*.yml', '**/*.json'], base: 'src/data/authors' }),
+  schema: z.object({
+    name: z.string(),
+    // A single bio or one per locale (`bio: { en: '…', es: '…' }`)
+    bio: z.union([z.string(), z.record(z.string())]).optional(),
+    // `~/assets/images/…` path (see `findImage`) or URL
+    avatar: z.string().optional(),
+    socialLinks: z
+      .array(
+        z.object({
+          ariaLabel: z.string().optional(),
+          icon: z.string().optional(),
+          href: z.string().url(),
+        })
+      )
+      .optional(),
+  }),
+});
+
 export const collections = {
   post: postCollection,
   pages: pagesCollection,
+  authors: authorsCollection,
 };
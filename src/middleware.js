@@ -12,6 +12,7 @@ export async function onRequest(context, next) {
   if (!ready) {
     await readyPromise;
   }
+  // `params.locale` is undefined outside `[...locale]` routes and for the unprefixed default locale
   const locale = context.params.locale ?? I18N.defaultLocale;
   return runWithLocale(locale, next);
 }
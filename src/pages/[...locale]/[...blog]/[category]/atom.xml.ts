@@ -0,0 +1,11 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+
+import { getFeedResponse, getStaticPathsCategoryFeed, type FeedProps } from '~/utils/feeds';
+
+export const prerender = true;
+
+export const getStaticPaths = (async () => {
+  return await getStaticPathsCategoryFeed('atom');
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props }) => getFeedResponse('atom', props as FeedProps);
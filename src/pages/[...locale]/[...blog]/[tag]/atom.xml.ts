@@ -0,0 +1,11 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+
+import { getFeedResponse, getStaticPathsTagFeed, type FeedProps } from '~/utils/feeds';
+
+export const prerender = true;
+
+export const getStaticPaths = (async () => {
+  return await getStaticPathsTagFeed('atom');
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props }) => getFeedResponse('atom', props as FeedProps);
@@ -0,0 +1,16 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+
+import { getSearchIndex, getStaticPathsSearchIndex } from '~/utils/search';
+
+export const prerender = true;
+
+export const getStaticPaths = (async () => {
+  return await getStaticPathsSearchIndex();
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props }) =>
+  new Response(JSON.stringify(await getSearchIndex(props.locale as string)), {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
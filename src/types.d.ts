@@ -11,6 +11,15 @@ export interface Post {
   /**  */
   permalink: string;
 
+  /** Locale the post is written in, taken from its `src/data/post/<locale>/` folder. */
+  locale: string;
+  /** Key shared by all translations of the same post (frontmatter `translationKey` or path without locale). */
+  translationKey: string;
+  /** Locale of the content when the post is rendered as a fallback for a missing translation. */
+  fallbackLocale?: string;
+  /** `original` for default-locale posts, otherwise whether the translation is still current with the original. */
+  translationStatus: 'original' | 'current' | 'outdated';
+
   /**  */
   publishDate: Date;
   /**  */
@@ -27,14 +36,18 @@ export interface Post {
   category?: Taxonomy;
   /**  */
   tags?: Taxonomy[];
-  /**  */
-  author?: string;
+  /** Entries of the `authors` collection, with the bio of the post locale. */
+  authors?: Array<Author>;
+  /** Series the post is a part of, and its `order` in it. */
+  series?: Taxonomy & { order: number };
 
   /**  */
   metadata?: MetaData;
 
   /**  */
   draft?: boolean;
+  /** Publish date still to come at build time: like drafts, only published in dev and preview builds. */
+  scheduled?: boolean;
 
   /**  */
   Content?: AstroComponentFactory;
@@ -49,6 +62,41 @@ export interface Taxonomy {
   title: string;
 }
 
+export interface Author {
+  /** Entry id in `src/data/authors/`, also the slug of the author page. */
+  slug: string;
+  name: string;
+  /** Bio in the requested locale (or the default locale). */
+  bio?: string;
+  avatar?: ImageMetadata | string;
+  socialLinks?: Array<Link>;
+}
+
+export interface ArchiveYear {
+  year: number;
+  /** Number of posts of the year */
+  count: number;
+  /** Months (1-12) with posts, newest first */
+  months: Array<{ month: number; count: number }>;
+}
+
+/** A page of the posts of an archive year or month, shaped like the `Page` of `paginate()` */
+export interface ArchivePage {
+  data: Array<Post>;
+  start: number;
+  end: number;
+  total: number;
+  currentPage: number;
+  lastPage: number;
+  /** Previous and next pages, with base and locale prefix like the `url` of Astro's `paginate()` pages */
+  url: { prev?: string; next?: string };
+}
+
+export interface Series extends Taxonomy {
+  /** Published parts in a locale, in order. */
+  posts: Array<Post>;
+}
+
 export interface MetaData {
   title?: string;
   ignoreTitleTemplate?: boolean;
@@ -141,12 +189,25 @@ export interface Item {
   image?: Image;
 }
 
-export interface Price {
+export interface PriceAmount {
+  /** Price per `period` (e.g. per month) */
+  amount?: number;
+  /** ISO 4217 code, e.g. `USD` or `EUR` */
+  currency?: string;
+  /** Price per year, shown by the billing toggle of the Pricing widget */
+  yearlyAmount?: number;
+}
+
+export interface Price extends PriceAmount {
   title?: string;
   subtitle?: string;
   description?: string;
+  /** Free-form price, shown as is when no `amount` is set (a number is an amount in USD) */
   price?: number | string;
   period?: string;
+  yearlyPeriod?: string;
+  /** Price table per locale, overriding `amount`, `currency` and `yearlyAmount` */
+  locales?: Record<string, PriceAmount>;
   items?: Array<Item>;
   callToAction?: CallToAction;
   hasRibbon?: boolean;
@@ -229,6 +290,11 @@ export interface Stats extends Omit<Headline, 'classes'>, Widget {
 
 export interface Pricing extends Omit<Headline, 'classes'>, Widget {
   prices?: Array<Price>;
+  /** Monthly/yearly toggle, shown when a price has a `yearlyAmount` */
+  billing?: {
+    monthlyText?: string;
+    yearlyText?: string;
+  };
 }
 
 export interface Testimonials extends Omit<Headline, 'classes'>, Widget {
@@ -288,7 +354,8 @@ export interface AutoNavConfig {
   anchorLinks?: Array<{ text: string; href: string }>;
   exclude?: boolean; // Exclude from all navigation
   type?: 'page' | 'blog' | 'category' | 'tag' | 'home' | 'asset' | 'post';
-  slug?: string;
+  /** Link target; for pages, a per-locale map (`{ es: 'sobre-nosotros' }`) also localizes the route path */
+  slug?: string | Record<string, string>;
 }
 
 export interface AutoNavPage {
@@ -1,5 +1,7 @@
-import { getPermalink, getPagePermalink, cleanSlug, trimSlash } from './permalinks';
-import { I18N, NAVIGATION } from 'astrowind:config';
+import { getPermalink, getPagePermalink, getLocalizedValue, cleanSlug, trimSlash } from './permalinks';
+import { getLocalizedRoutePath } from './localized-routes';
+import { I18N } from 'astrowind:config';
+import { getNavigationConfig } from './i18n';
 import type { AutoNavPage, AutoNavConfig, NavigationData, FooterData, NavigationLink, Links } from '~/types';
 
 /**
@@ -21,11 +23,11 @@ function isDynamicSegment(segment: string): boolean {
 
 /**
  * Extract the route path from a file path
- * e.g., /src/pages/[locale]/homes/saas.astro -> /homes/saas
+ * e.g., /src/pages/[...locale]/homes/saas.astro -> /homes/saas
  */
 function extractRoutePath(filePath: string): string {
-  // Remove /src/pages/[locale]/ prefix
-  const withoutPrefix = filePath.replace(/^\/src\/pages\/\[locale\]/, '');
+  // Remove /src/pages/[...locale]/ prefix
+  const withoutPrefix = filePath.replace(/^\/src\/pages\/\[\.\.\.locale\]/, '');
   // Remove file extension
   const withoutExt = withoutPrefix.replace(/\.(astro|md|mdx)$/, '');
   // Handle index files
@@ -275,9 +277,10 @@ function scanPages(
 
   // Vite requires LITERAL glob patterns - no variables allowed
   // Single pattern covers all file types: {astro,md,mdx} already includes .astro
+  // `[...locale]` is the only directory of src/pages (globs can't match its brackets literally)
   const pageModules = import.meta.glob<{
     navigation?: AutoNavConfig;
-  }>('/src/pages/[locale]/**/*.{astro,md,mdx}', { eager: true });
+  }>('/src/pages/*/**/*.{astro,md,mdx}', { eager: true });
 
   const pages: AutoNavPage[] = [];
 
@@ -320,9 +323,14 @@ function scanPages(
       continue;
     }
 
-    // Determine type and slug
+    // Determine type and slug (a per-locale slug map localizes the page route, or the category/tag slug)
     const type = navigation?.type ?? 'page';
-    const slug = navigation?.slug ?? routePath;
+    const slug =
+      typeof navigation?.slug === 'object'
+        ? type === 'page'
+          ? getLocalizedRoutePath(routePath, navigation.slug, locale)
+          : getLocalizedValue(navigation.slug, locale)
+        : (navigation?.slug ?? routePath);
 
     // Validation: category and tag types require a slug
     if ((type === 'category' || type === 'tag') && !slug) {
@@ -365,7 +373,7 @@ export function generateNavigation(locale: string = I18N.defaultLocale): Navigat
 
   const result: NavigationData = {
     links: collapsedLinks,
-    actions: NAVIGATION.actions || [],
+    actions: getNavigationConfig(locale).actions || [],
   };
 
   return result;
@@ -383,14 +391,16 @@ export function generateFooterData(locale: string = I18N.defaultLocale): FooterD
   const navLinks = buildNavigationTree(sortedFooterPages);
   const links = navigationLinksToFooterLinks(navLinks);
 
+  const { footer } = getNavigationConfig(locale);
+
   const result: FooterData = {
     links,
-    secondaryLinks: (NAVIGATION.footer?.secondaryLinks || []).map((link: { title: string; page: string }) => ({
+    secondaryLinks: (footer?.secondaryLinks || []).map((link: { title: string; page: string }) => ({
       title: link.title,
       href: getPagePermalink(link.page, locale),
     })),
     /* @wc-ignore */
-    footNote: NAVIGATION.footer?.footNote || '',
+    footNote: footer?.footNote || '',
   };
 
   return result;
@@ -1,12 +1,32 @@
 import type { PaginateFunction, GetStaticPathsResult } from 'astro';
-import { getCollection, render } from 'astro:content';
+import { getCollection, getEntry, render } from 'astro:content';
 import type { CollectionEntry } from 'astro:content';
-import type { Post } from '~/types';
+import type { ArchivePage, ArchiveYear, Author, Post, Series } from '~/types';
 import { I18N } from 'astrowind:config';
+import { getCurrentLocale, getLocaleParam, getLocaleSettings } from '~/utils/i18n';
+import { getYearMonth } from '~/utils/utils';
 import { APP_BLOG } from 'astrowind:config';
-import { cleanSlug, trimSlash, BLOG_BASE, POST_PERMALINK_PATTERN, CATEGORY_BASE, TAG_BASE } from './permalinks';
+import {
+  cleanSlug,
+  trimSlash,
+  getCanonical,
+  getPermalink,
+  getBlogBase,
+  getCategoryBase,
+  getTagBase,
+  getArchiveBase,
+  getAuthorBase,
+  getSeriesBase,
+  getLocalizedValue,
+  getPostPermalinkPattern,
+} from './permalinks';
+import { getMarkdownText, tokenize } from './search-text';
+import { findImage } from './images';
+
+const PERMALINK_DATE_TOKENS = /%(year|month|day|hour|minute|second)%/;
 
 const getLangFromPostId = (id: string): string => id.split('/')[0];
+const getTranslationKeyFromPostId = (id: string): string => id.split('/').slice(1).join('/') || id;
 export { I18N };
 
 const generatePermalink = async ({
@@ -14,11 +34,13 @@ const generatePermalink = async ({
   slug,
   publishDate,
   category,
+  locale,
 }: {
   id: string;
   slug: string;
   publishDate: Date;
   category: string | undefined;
+  locale: string;
 }) => {
   const year = String(publishDate.getFullYear()).padStart(4, '0');
   const month = String(publishDate.getMonth() + 1).padStart(2, '0');
@@ -27,7 +49,8 @@ const generatePermalink = async ({
   const minute = String(publishDate.getMinutes()).padStart(2, '0');
   const second = String(publishDate.getSeconds()).padStart(2, '0');
 
-  const permalink = POST_PERMALINK_PATTERN.replace('%slug%', slug)
+  const permalink = getPostPermalinkPattern(locale)
+    .replace('%slug%', slug)
     .replace('%id%', id)
     .replace('%category%', category || '')
     .replace('%year%', year)
@@ -44,6 +67,15 @@ const generatePermalink = async ({
     .join('/');
 };
 
+/** Author of an `authors` entry, with the bio of `locale` and its avatar resolved (see `findImage`). */
+const getNormalizedAuthor = async ({ id, data }: CollectionEntry<'authors'>, locale: string): Promise<Author> => ({
+  slug: id,
+  name: data.name,
+  bio: getLocalizedValue(data.bio, locale),
+  avatar: (await findImage(data.avatar)) ?? undefined,
+  socialLinks: data.socialLinks,
+});
+
 const getNormalizedPost = async (post: CollectionEntry<'post'>): Promise<Post> => {
   const { id, data } = post;
   const { Content, remarkPluginFrontmatter } = await render(post);
@@ -56,14 +88,29 @@ const getNormalizedPost = async (post: CollectionEntry<'post'>): Promise<Post> =
     image,
     tags: rawTags = [],
     category: rawCategory,
-    author,
+    author: rawAuthors = [],
+    series: rawSeries,
     draft = false,
+    translationKey,
+    translationStatus,
     metadata = {},
   } = data;
 
   const slug = cleanSlug(id.split('/').pop() || id); // cleanSlug(rawSlug.split('/').pop());
+  const locale = getLangFromPostId(id);
   const publishDate = new Date(rawPublishDate);
   const updateDate = rawUpdateDate ? new Date(rawUpdateDate) : undefined;
+  const scheduled = publishDate.valueOf() > Date.now();
+
+  // The permalink of a post without publish date would change on every build (fallback copies use other patterns)
+  const permalinkLocales = isPostFallbackEnabled && locale === I18N.defaultLocale ? I18N.locales : [locale];
+  if (
+    !data.publishDate &&
+    !draft &&
+    permalinkLocales.some((permalinkLocale) => PERMALINK_DATE_TOKENS.test(getPostPermalinkPattern(permalinkLocale)))
+  ) {
+    throw new Error(`Post "${id}" needs a publishDate: apps.blog.post.permalink uses date tokens in src/config.yaml`);
+  }
 
   const category = rawCategory
     ? {
@@ -77,10 +124,30 @@ const getNormalizedPost = async (post: CollectionEntry<'post'>): Promise<Post> =
     title: tag,
   }));
 
+  const authors: Array<Author> = [];
+  for (const reference of [rawAuthors].flat()) {
+    const entry = await getEntry(reference);
+    if (entry) {
+      authors.push(await getNormalizedAuthor(entry, locale));
+    }
+  }
+
+  const series = rawSeries
+    ? {
+        slug: cleanSlug(rawSeries.name),
+        title: rawSeries.name,
+        order: rawSeries.order,
+      }
+    : undefined;
+
   return {
     id: id,
     slug: slug,
-    permalink: await generatePermalink({ id, slug, publishDate, category: category?.slug }),
+    permalink: await generatePermalink({ id, slug, publishDate, category: category?.slug, locale }),
+
+    locale: locale,
+    translationKey: translationKey ? trimSlash(translationKey) : getTranslationKeyFromPostId(id),
+    translationStatus: translationStatus ?? 'original',
 
     publishDate: publishDate,
     updateDate: updateDate,
@@ -91,11 +158,13 @@ const getNormalizedPost = async (post: CollectionEntry<'post'>): Promise<Post> =
 
     category: category,
     tags: tags,
-    author: author,
+    authors: authors,
+    series: series,
 
     draft: draft,
+    scheduled: scheduled,
 
-    metadata,
+    metadata: draft || scheduled ? { ...metadata, robots: { ...metadata.robots, index: false } } : metadata,
 
     Content: Content,
     // or 'content' in case you consume from API
@@ -106,14 +175,14 @@ const getNormalizedPost = async (post: CollectionEntry<'post'>): Promise<Post> =
 
 const load = async function (lang?: string): Promise<Array<Post>> {
   const posts = await getCollection('post');
-  const normalizedPosts = posts.map(async (post) => await getNormalizedPost(post));
+  const normalizedPosts = await Promise.all(posts.map(async (post) => await getNormalizedPost(post)));
 
-  let results = (await Promise.all(normalizedPosts))
+  let results = normalizedPosts
     .sort((a, b) => b.publishDate.valueOf() - a.publishDate.valueOf())
-    .filter((post) => !post.draft);
+    .filter((post) => isBlogPreview || (!post.draft && !post.scheduled));
 
   if (lang) {
-    results = results.filter((post) => getLangFromPostId(post.id) === lang);
+    results = results.filter((post) => post.locale === lang);
   }
 
   return results;
@@ -123,19 +192,32 @@ let _posts: Array<Post>;
 
 /** */
 export const isBlogEnabled = APP_BLOG.isEnabled;
+export const isBlogPreview = APP_BLOG.isPreview;
 export const isRelatedPostsEnabled = APP_BLOG.isRelatedPostsEnabled;
+export const relatedPostsCount = APP_BLOG.relatedPostsCount;
+export const relatedPostsMinScore = APP_BLOG.relatedPostsMinScore;
+export const isRelatedPostsFallbackEnabled = APP_BLOG.isRelatedPostsFallbackEnabled;
 export const isBlogListRouteEnabled = APP_BLOG.list.isEnabled;
 export const isBlogPostRouteEnabled = APP_BLOG.post.isEnabled;
 export const isBlogCategoryRouteEnabled = APP_BLOG.category.isEnabled;
 export const isBlogTagRouteEnabled = APP_BLOG.tag.isEnabled;
+export const isBlogSeriesRouteEnabled = APP_BLOG.series.isEnabled;
+export const isBlogAuthorRouteEnabled = APP_BLOG.author.isEnabled;
+export const isBlogArchiveRouteEnabled = APP_BLOG.archive.isEnabled;
 
 export const blogListRobots = APP_BLOG.list.robots;
 export const blogPostRobots = APP_BLOG.post.robots;
 export const blogCategoryRobots = APP_BLOG.category.robots;
 export const blogTagRobots = APP_BLOG.tag.robots;
+export const blogSeriesRobots = APP_BLOG.series.robots;
+export const blogAuthorRobots = APP_BLOG.author.robots;
+export const blogArchiveRobots = APP_BLOG.archive.robots;
 
 export const blogPostsPerPage = APP_BLOG?.postsPerPage;
 
+export const isPostFallbackEnabled = I18N.fallback.post.isEnabled;
+export const isPostFallbackShownInLists = isPostFallbackEnabled && I18N.fallback.post.showInLists;
+
 /** */
 export const fetchPosts = async (): Promise<Array<Post>> => {
   if (!_posts) {
@@ -181,6 +263,67 @@ export const findLatestPosts = async ({ count }: { count?: number }): Promise<Ar
   return posts ? posts.slice(0, _count) : [];
 };
 
+/**
+ * Get all translations of a post, keyed by locale (the post itself included).
+ * Posts are linked through their `translationKey`, which defaults to the file path inside the locale folder.
+ */
+export const getTranslations = async (post: Post): Promise<Record<string, Post>> => {
+  const posts = await fetchPosts();
+
+  return posts.reduce((translations: Record<string, Post>, iteratedPost: Post) => {
+    if (iteratedPost.translationKey === post.translationKey) {
+      translations[iteratedPost.locale] = iteratedPost;
+    }
+    return translations;
+  }, {});
+};
+
+/**
+ * Render a default-locale post under another locale, for locales where it has not been translated yet.
+ * The copy points its canonical to the original and is never indexed.
+ */
+const getFallbackPost = async (post: Post, locale: string): Promise<Post> => ({
+  ...post,
+  permalink: await generatePermalink({
+    id: post.id,
+    slug: post.slug,
+    publishDate: post.publishDate,
+    category: post.category?.slug,
+    locale,
+  }),
+  locale: locale,
+  fallbackLocale: post.locale,
+  metadata: {
+    ...post.metadata,
+    canonical: post.metadata?.canonical || String(getCanonical(getPermalink(post.permalink, 'post', post.locale))),
+    robots: { ...post.metadata?.robots, index: false },
+  },
+});
+
+/** Default-locale posts without a translation in `locale`, rendered as fallback entries. */
+export const getFallbackPosts = async (locale: string): Promise<Array<Post>> => {
+  if (!isPostFallbackEnabled || locale === I18N.defaultLocale) return [];
+
+  const posts = await fetchPosts();
+  const translatedKeys = new Set(posts.filter((post) => post.locale === locale).map((post) => post.translationKey));
+
+  return Promise.all(
+    posts
+      .filter((post) => post.locale === I18N.defaultLocale && !translatedKeys.has(post.translationKey))
+      .map((post) => getFallbackPost(post, locale))
+  );
+};
+
+/** Posts of a locale, optionally completed with fallback entries (sorted by publish date). */
+const loadWithFallbacks = async (locale: string, includeFallbacks: boolean): Promise<Array<Post>> => {
+  const posts = await load(locale);
+  if (!includeFallbacks) return posts;
+
+  return [...posts, ...(await getFallbackPosts(locale))].sort(
+    (a, b) => b.publishDate.valueOf() - a.publishDate.valueOf()
+  );
+};
+
 /** */
 export const getStaticPathsBlogList = async ({
   paginate,
@@ -190,9 +333,9 @@ export const getStaticPathsBlogList = async ({
   if (!isBlogEnabled || !isBlogListRouteEnabled) return [];
   const paths: GetStaticPathsResult = [];
   for (const locale of I18N.locales) {
-    const posts = await load(locale);
+    const posts = await loadWithFallbacks(locale, isPostFallbackShownInLists);
     const paginated = paginate(posts, {
-      params: { locale, blog: BLOG_BASE || undefined },
+      params: { locale: getLocaleParam(locale), blog: getBlogBase(locale) || undefined },
       pageSize: blogPostsPerPage,
     });
     paths.push(...paginated);
@@ -203,21 +346,21 @@ export const getStaticPathsBlogList = async ({
 /** */
 export const getStaticPathsBlogPost = async (): Promise<
   Array<{
-    params: { locale: string; blog: string };
+    params: { locale: string | undefined; blog: string };
     props: { post: Post; locale: string };
   }>
 > => {
   if (!isBlogEnabled || !isBlogPostRouteEnabled) return [];
   const paths: Array<{
-    params: { locale: string; blog: string };
+    params: { locale: string | undefined; blog: string };
     props: { post: Post; locale: string };
   }> = [];
   for (const locale of I18N.locales) {
-    const posts = await load(locale);
+    const posts = await loadWithFallbacks(locale, isPostFallbackEnabled);
     for (const post of posts) {
       paths.push({
         params: {
-          locale,
+          locale: getLocaleParam(locale),
           blog: post.permalink,
         },
         props: { post, locale },
@@ -227,6 +370,22 @@ export const getStaticPathsBlogPost = async (): Promise<
   return paths;
 };
 
+/** `/[locale]/_drafts`: the drafts and scheduled posts of each locale, for editors (only in `astro dev`). */
+export const getStaticPathsBlogDrafts = async (): Promise<
+  Array<{
+    params: { locale: string | undefined; drafts: string };
+    props: { posts: Array<Post>; locale: string };
+  }>
+> => {
+  if (!isBlogEnabled || !import.meta.env.DEV) return [];
+
+  const posts = await fetchPosts();
+  return I18N.locales.map((locale) => ({
+    params: { locale: getLocaleParam(locale), drafts: '_drafts' },
+    props: { posts: posts.filter((post) => post.locale === locale && (post.draft || post.scheduled)), locale },
+  }));
+};
+
 /** */
 export const getStaticPathsBlogCategory = async ({
   paginate,
@@ -237,7 +396,7 @@ export const getStaticPathsBlogCategory = async ({
 
   const paths: GetStaticPathsResult = [];
   for (const locale of I18N.locales) {
-    const posts = await load(locale);
+    const posts = await loadWithFallbacks(locale, isPostFallbackShownInLists);
     const categories = {};
     posts.forEach((post) => {
       if (post.category?.slug) {
@@ -249,7 +408,11 @@ export const getStaticPathsBlogCategory = async ({
       paginate(
         posts.filter((post) => post.category?.slug && categorySlug === post.category?.slug),
         {
-          params: { locale, category: categorySlug, blog: CATEGORY_BASE || undefined },
+          params: {
+            locale: getLocaleParam(locale),
+            category: categorySlug,
+            blog: getCategoryBase(locale) || undefined,
+          },
           pageSize: blogPostsPerPage,
           props: { category: categories[categorySlug], locale },
         }
@@ -270,7 +433,7 @@ export const getStaticPathsBlogTag = async ({
 
   const paths: GetStaticPathsResult = [];
   for (const locale of I18N.locales) {
-    const posts = await load(locale);
+    const posts = await loadWithFallbacks(locale, isPostFallbackShownInLists);
     const tags = {};
     posts.forEach((post) => {
       if (Array.isArray(post.tags)) {
@@ -284,7 +447,7 @@ export const getStaticPathsBlogTag = async ({
       paginate(
         posts.filter((post) => Array.isArray(post.tags) && post.tags.find((elem) => elem.slug === tagSlug)),
         {
-          params: { locale, tag: tagSlug, blog: TAG_BASE || undefined },
+          params: { locale: getLocaleParam(locale), tag: tagSlug, blog: getTagBase(locale) || undefined },
           pageSize: blogPostsPerPage,
           props: { tag: tags[tagSlug], locale },
         }
@@ -296,38 +459,296 @@ export const getStaticPathsBlogTag = async ({
 };
 
 /** */
-export async function getRelatedPosts(originalPost: Post, maxResults: number = 4): Promise<Post[]> {
-  const allPosts = await fetchPosts();
-  const originalTagsSet = new Set(originalPost.tags ? originalPost.tags.map((tag) => tag.slug) : []);
+export const getStaticPathsBlogAuthor = async ({
+  paginate,
+}: {
+  paginate: PaginateFunction;
+}): Promise<GetStaticPathsResult> => {
+  if (!isBlogEnabled || !isBlogAuthorRouteEnabled) return [];
 
-  const postsWithScores = allPosts.reduce((acc: { post: Post; score: number }[], iteratedPost: Post) => {
-    if (iteratedPost.slug === originalPost.slug) return acc;
+  const paths: GetStaticPathsResult = [];
+  for (const locale of I18N.locales) {
+    const posts = await loadWithFallbacks(locale, isPostFallbackShownInLists);
+    const authorSlugs = new Set(posts.flatMap((post) => (post.authors ?? []).map((author) => author.slug)));
+
+    for (const authorSlug of authorSlugs) {
+      const entry = await getEntry('authors', authorSlug);
+      if (!entry) continue;
+
+      // Bio in the locale of the page, whatever the locale of the posts
+      const author = await getNormalizedAuthor(entry, locale);
+      paths.push(
+        ...paginate(
+          posts.filter((post) => post.authors?.some((postAuthor) => postAuthor.slug === authorSlug)),
+          {
+            params: { locale: getLocaleParam(locale), author: authorSlug, blog: getAuthorBase(locale) || undefined },
+            pageSize: blogPostsPerPage,
+            props: { author, locale },
+          }
+        )
+      );
+    }
+  }
+  return paths;
+};
 
-    let score = 0;
-    if (iteratedPost.category && originalPost.category && iteratedPost.category.slug === originalPost.category.slug) {
-      score += 5;
+/** Posts of the archive of a locale, newest first: its own and, with `showInLists`, fallback entries. */
+const getArchivePosts = async (locale: string): Promise<Array<Post>> =>
+  [
+    ...(await fetchPosts()).filter((post) => post.locale === locale),
+    ...(isPostFallbackShownInLists ? await getFallbackPosts(locale) : []),
+  ].sort((a, b) => b.publishDate.valueOf() - a.publishDate.valueOf());
+
+/** Path of an archive year or month (1-12) page after the archive base: `2024`, `2024/05`, `2024/05/page/2` */
+const getArchivePath = (year: number, month?: number, page = 1): string =>
+  [year, month && String(month).padStart(2, '0'), page > 1 && `page/${page}`].filter((el) => !!el).join('/');
+
+/** Years and months with posts in a locale, newest first, with their number of posts (in `site.timezone`). */
+export const getArchive = async (locale: string = getCurrentLocale()): Promise<Array<ArchiveYear>> => {
+  const years: Array<ArchiveYear> = [];
+  for (const post of await getArchivePosts(locale)) {
+    const { year, month } = getYearMonth(post.publishDate);
+    let archiveYear = years.at(-1);
+    if (archiveYear?.year !== year) {
+      archiveYear = { year, count: 0, months: [] };
+      years.push(archiveYear);
     }
+    let archiveMonth = archiveYear.months.at(-1);
+    if (archiveMonth?.month !== month) {
+      archiveMonth = { month, count: 0 };
+      archiveYear.months.push(archiveMonth);
+    }
+    archiveYear.count++;
+    archiveMonth.count++;
+  }
+  return years;
+};
 
-    if (iteratedPost.tags) {
-      iteratedPost.tags.forEach((tag) => {
-        if (originalTagsSet.has(tag.slug)) {
-          score += 1;
-        }
+/**
+ * Archive index, year and month pages of every locale. Year and month pages are paginated like `paginate()` but
+ * as `<year>/page/2`, so that pages can't be mistaken for months.
+ */
+export const getStaticPathsBlogArchive = async (): Promise<
+  Array<{
+    params: { locale: string | undefined; blog: string | undefined; archive: string | undefined };
+    props: { locale: string; years?: Array<ArchiveYear>; year?: number; month?: number; page?: ArchivePage };
+  }>
+> => {
+  if (!isBlogEnabled || !isBlogArchiveRouteEnabled) return [];
+
+  const paths: Array<{
+    params: { locale: string | undefined; blog: string | undefined; archive: string | undefined };
+    props: { locale: string; years?: Array<ArchiveYear>; year?: number; month?: number; page?: ArchivePage };
+  }> = [];
+  for (const locale of I18N.locales) {
+    const base = getArchiveBase(locale);
+    const getParams = (archive?: string) => ({ locale: getLocaleParam(locale), blog: base || undefined, archive });
+    const posts = await getArchivePosts(locale);
+    const years = await getArchive(locale);
+
+    paths.push({ params: getParams(), props: { locale, years } });
+
+    const periods: Array<{ year: number; month?: number }> = years.flatMap(({ year, months }) => [
+      { year },
+      ...months.map(({ month }) => ({ year, month })),
+    ]);
+    for (const { year, month } of periods) {
+      const periodPosts = posts.filter((post) => {
+        const date = getYearMonth(post.publishDate);
+        return date.year === year && (!month || date.month === month);
       });
+      const lastPage = Math.ceil(periodPosts.length / blogPostsPerPage);
+      const getUrl = (page: number) =>
+        page >= 1 && page <= lastPage ? getPermalink(getArchivePath(year, month, page), 'archive', locale) : undefined;
+
+      for (let currentPage = 1; currentPage <= lastPage; currentPage++) {
+        const start = (currentPage - 1) * blogPostsPerPage;
+        const data = periodPosts.slice(start, start + blogPostsPerPage);
+        paths.push({
+          params: getParams(getArchivePath(year, month, currentPage)),
+          props: {
+            locale,
+            year,
+            month,
+            page: {
+              data,
+              start,
+              end: start + data.length - 1,
+              total: periodPosts.length,
+              currentPage,
+              lastPage,
+              url: { prev: getUrl(currentPage - 1), next: getUrl(currentPage + 1) },
+            },
+          },
+        });
+      }
     }
+  }
+  return paths;
+};
 
-    acc.push({ post: iteratedPost, score });
-    return acc;
-  }, []);
+/** Posts of `posts` in the series `slug`, ordered by part (then publish date). */
+const getSeriesPosts = (posts: Array<Post>, slug: string): Array<Post> =>
+  posts
+    .filter((post) => post.series?.slug === slug)
+    .sort((a, b) => a.series!.order - b.series!.order || a.publishDate.valueOf() - b.publishDate.valueOf());
+
+/**
+ * Series of a post with its published parts in the post's locale, fallback entries of untranslated default-locale
+ * parts included when post fallback is enabled. `undefined` when the post is not part of a series.
+ */
+export const getSeries = async (post: Post): Promise<Series | undefined> => {
+  if (!post.series) return undefined;
+
+  const posts = [
+    ...(await fetchPosts()).filter((iteratedPost) => iteratedPost.locale === post.locale),
+    ...(await getFallbackPosts(post.locale)),
+  ];
+
+  return { slug: post.series.slug, title: post.series.title, posts: getSeriesPosts(posts, post.series.slug) };
+};
+
+/** */
+export const getStaticPathsBlogSeries = async (): Promise<
+  Array<{
+    params: { locale: string | undefined; blog: string | undefined; series: string };
+    props: { series: Series; locale: string };
+  }>
+> => {
+  if (!isBlogEnabled || !isBlogSeriesRouteEnabled) return [];
+
+  const paths: Array<{
+    params: { locale: string | undefined; blog: string | undefined; series: string };
+    props: { series: Series; locale: string };
+  }> = [];
+  for (const locale of I18N.locales) {
+    const posts = await loadWithFallbacks(locale, isPostFallbackShownInLists);
+    const series: Record<string, string> = {};
+    posts.forEach((post) => {
+      if (post.series) {
+        series[post.series.slug] = post.series.title;
+      }
+    });
+
+    for (const [slug, title] of Object.entries(series)) {
+      paths.push({
+        params: { locale: getLocaleParam(locale), blog: getSeriesBase(locale) || undefined, series: slug },
+        props: { series: { slug, title, posts: getSeriesPosts(posts, slug) }, locale },
+      });
+    }
+  }
+  return paths;
+};
+
+type ContentVector = Map<string, number>;
 
-  postsWithScores.sort((a, b) => b.score - a.score);
+// Related posts score: same category, each shared tag, and content similarity (cosine, from 0 to 1)
+const RELATED_POSTS_WEIGHTS = { category: 5, tag: 1, content: 10 };
 
-  const selectedPosts: Post[] = [];
-  let i = 0;
-  while (selectedPosts.length < maxResults && i < postsWithScores.length) {
-    selectedPosts.push(postsWithScores[i].post);
-    i++;
+let _contentVectors: Map<string, ContentVector>;
+
+/**
+ * TF-IDF vectors (unit length) of the title, excerpt and body text of the posts, keyed by post id. Terms are weighted
+ * against the other posts of the same locale, so words found in all of them carry no weight. Computed once per build.
+ */
+const getContentVectors = async (): Promise<Map<string, ContentVector>> => {
+  if (!_contentVectors) {
+    const bodies = new Map<string, string | undefined>(
+      (await getCollection('post')).map((entry) => [entry.id, entry.body])
+    );
+    const posts = await fetchPosts();
+    _contentVectors = new Map();
+
+    for (const locale of new Set(posts.map((post) => post.locale))) {
+      const { lang } = getLocaleSettings(locale);
+      const localePosts = posts.filter((post) => post.locale === locale);
+      const termCounts = localePosts.map((post) =>
+        tokenize(`${post.title} ${post.excerpt ?? ''} ${getMarkdownText(bodies.get(post.id)).text}`, lang).reduce(
+          (counts, term) => counts.set(term, (counts.get(term) ?? 0) + 1),
+          new Map<string, number>()
+        )
+      );
+      const documentCounts = new Map<string, number>();
+      termCounts.forEach((counts) =>
+        counts.forEach((_, term) => documentCounts.set(term, (documentCounts.get(term) ?? 0) + 1))
+      );
+
+      localePosts.forEach((post, index) => {
+        const vector: ContentVector = new Map();
+        termCounts[index].forEach((count, term) => {
+          const weight = (1 + Math.log(count)) * Math.log(localePosts.length / documentCounts.get(term)!);
+          if (weight > 0) vector.set(term, weight);
+        });
+        const norm = Math.hypot(...vector.values());
+        vector.forEach((weight, term) => vector.set(term, weight / norm));
+        _contentVectors.set(post.id, vector);
+      });
+    }
+  }
+
+  return _contentVectors;
+};
+
+/**
+ * Content similarity of two posts, compared in the language of `candidate` (or else of `post`) through their
+ * translations: 0 when they have no version in a common language.
+ */
+const getContentSimilarity = (
+  post: Post,
+  candidate: Post,
+  posts: Array<Post>,
+  vectors: Map<string, ContentVector>
+): number => {
+  const findVersion = (iteratedPost: Post, locale: string) =>
+    (iteratedPost.fallbackLocale ?? iteratedPost.locale) === locale
+      ? iteratedPost
+      : posts.find((other) => other.translationKey === iteratedPost.translationKey && other.locale === locale);
+
+  for (const locale of [candidate.fallbackLocale ?? candidate.locale, post.fallbackLocale ?? post.locale]) {
+    const a = findVersion(post, locale);
+    const b = findVersion(candidate, locale);
+    if (a && b) {
+      const vectorA = vectors.get(a.id) ?? new Map();
+      const vectorB = vectors.get(b.id) ?? new Map();
+      return [...vectorA].reduce((sum, [term, weight]) => sum + weight * (vectorB.get(term) ?? 0), 0);
+    }
+  }
+  return 0;
+};
+
+/**
+ * Posts related to a post, in its locale: same category, shared tags and similar content (see `RELATED_POSTS_WEIGHTS`),
+ * best first, keeping those scoring at least `apps.blog.relatedPostsMinScore`. With `isRelatedPostsFallbackEnabled`,
+ * remaining slots go to the fallback entries of untranslated default-locale posts (see `getFallbackPosts`).
+ */
+export async function getRelatedPosts(originalPost: Post, maxResults: number = relatedPostsCount): Promise<Post[]> {
+  const allPosts = await fetchPosts();
+  const vectors = await getContentVectors();
+  const originalTagsSet = new Set(originalPost.tags ? originalPost.tags.map((tag) => tag.slug) : []);
+
+  const rank = (candidates: Array<Post>): Array<Post> =>
+    candidates
+      .filter((post) => post.translationKey !== originalPost.translationKey)
+      .map((post) => {
+        let score = RELATED_POSTS_WEIGHTS.content * getContentSimilarity(originalPost, post, allPosts, vectors);
+        if (post.category && originalPost.category && post.category.slug === originalPost.category.slug) {
+          score += RELATED_POSTS_WEIGHTS.category;
+        }
+        post.tags?.forEach((tag) => {
+          if (originalTagsSet.has(tag.slug)) {
+            score += RELATED_POSTS_WEIGHTS.tag;
+          }
+        });
+        return { post, score };
+      })
+      .filter(({ score }) => score >= relatedPostsMinScore)
+      .sort((a, b) => b.score - a.score)
+      .map(({ post }) => post);
+
+  const relatedPosts = rank(allPosts.filter((post) => post.locale === originalPost.locale));
+  if (isRelatedPostsFallbackEnabled && relatedPosts.length < maxResults) {
+    relatedPosts.push(...rank(await getFallbackPosts(originalPost.locale)));
   }
 
-  return selectedPosts;
+  return relatedPosts.slice(0, maxResults);
 }
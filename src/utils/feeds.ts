@@ -0,0 +1,312 @@
+import { getRssString } from '@astrojs/rss';
+import { getContainerRenderer as getMDXRenderer } from '@astrojs/mdx';
+import { experimental_AstroContainer as AstroContainer } from 'astro/container';
+import { loadRenderers } from 'astro:container';
+import { SITE, APP_BLOG, I18N } from 'astrowind:config';
+
+import type { Post, Taxonomy } from '~/types';
+import { fetchPosts, isBlogAuthorRouteEnabled, isBlogEnabled } from '~/utils/blog';
+import { getLocaleParam, getLocaleSettings, getMetadata, getSiteConfig } from '~/utils/i18n';
+import { adaptOpenGraphImages } from '~/utils/images';
+import {
+  getBlogPermalink,
+  getCanonical,
+  getCategoryBase,
+  getFilePermalink,
+  getLocalizedValue,
+  getPermalink,
+  getTagBase,
+} from '~/utils/permalinks';
+
+/** File and media type of each feed format (`apps.blog.feeds.<format>`) */
+export const FEED_FORMATS = {
+  rss: { file: 'rss.xml', type: 'application/rss+xml' },
+  atom: { file: 'atom.xml', type: 'application/atom+xml' },
+  json: { file: 'feed.json', type: 'application/feed+json' },
+};
+
+export type FeedFormat = keyof typeof FEED_FORMATS;
+
+export type FeedProps = { locale: string; type?: 'category' | 'tag'; taxonomy?: Taxonomy };
+
+type FeedPath = {
+  params: { locale: string | undefined; blog?: string; category?: string; tag?: string };
+  props: FeedProps;
+};
+
+/** Post data shared by all feed formats, with absolute URLs */
+interface FeedItem {
+  url: string;
+  title: string;
+  summary?: string;
+  contentHtml?: string;
+  image?: string;
+  tags: Array<string>;
+  /** Authors with the URL of their page, when author routes are enabled */
+  authors: Array<{ name: string; url?: string }>;
+  published: Date;
+  updated?: Date;
+}
+
+/** Feed data shared by all feed formats */
+interface Feed {
+  title: string;
+  description: string;
+  lang: string;
+  homeUrl: string;
+  feedUrl: string;
+  author: string;
+  items: Array<FeedItem>;
+}
+
+/** */
+export const isFeedEnabled = (format: FeedFormat) => isBlogEnabled && APP_BLOG.feeds[format].isEnabled;
+export const isCategoryFeedEnabled = (format: FeedFormat) =>
+  isFeedEnabled(format) && APP_BLOG.category.isEnabled && APP_BLOG.feeds.isCategoryFeedEnabled;
+export const isTagFeedEnabled = (format: FeedFormat) =>
+  isFeedEnabled(format) && APP_BLOG.tag.isEnabled && APP_BLOG.feeds.isTagFeedEnabled;
+
+/** Formats enabled in `apps.blog.feeds`, e.g. for auto-discovery links */
+export const getEnabledFeedFormats = (): Array<FeedFormat> =>
+  (Object.keys(FEED_FORMATS) as Array<FeedFormat>).filter((format) => isFeedEnabled(format));
+
+/** Published posts written in a locale: feeds never list the fallback copies of other locales, drafts nor scheduled posts. */
+const getLocalePosts = async (locale: string): Promise<Array<Post>> =>
+  (await fetchPosts()).filter((post) => post.locale === locale && !post.draft && !post.scheduled);
+
+let _container: AstroContainer;
+
+/** Rendered HTML of a post, for full-content feed items. */
+const getPostHtml = async (post: Post): Promise<string | undefined> => {
+  if (!post.Content) return undefined;
+
+  _container ??= await AstroContainer.create({ renderers: await loadRenderers([getMDXRenderer()]) });
+  return _container.renderToString(post.Content);
+};
+
+/** Absolute URL of the (optimized) image of a post. */
+const getPostImageUrl = async (post: Post): Promise<string | undefined> => {
+  if (!post.image) return undefined;
+
+  const { images } = await adaptOpenGraphImages(
+    { images: [{ url: post.image as string }] },
+    new URL(String(getCanonical('/')))
+  );
+  return images?.[0]?.url || undefined;
+};
+
+/** Title of the feeds of a locale (`apps.blog.feeds.title`), followed by the category or tag of taxonomy feeds. */
+export const getFeedTitle = (locale: string, taxonomy?: Taxonomy): string => {
+  const title = (getLocalizedValue(APP_BLOG.feeds.title, locale) || '{name}').replace(
+    '{name}',
+    getSiteConfig(locale).name
+  );
+  return taxonomy ? `${title} · ${taxonomy.title}` : title;
+};
+
+/** */
+export const getStaticPathsFeed = async (format: FeedFormat): Promise<Array<FeedPath>> => {
+  if (!isFeedEnabled(format)) return [];
+
+  const paths: Array<FeedPath> = I18N.locales.map((locale: string) => ({
+    params: { locale: getLocaleParam(locale) },
+    props: { locale },
+  }));
+  // Keep `/rss.xml` (and the other formats) when the default locale is prefixed
+  if (I18N.prefixDefaultLocale) {
+    paths.push({ params: { locale: undefined }, props: { locale: I18N.defaultLocale } });
+  }
+  return paths;
+};
+
+/** */
+export const getStaticPathsCategoryFeed = async (format: FeedFormat): Promise<Array<FeedPath>> => {
+  if (!isCategoryFeedEnabled(format)) return [];
+
+  const paths: Array<FeedPath> = [];
+  for (const locale of I18N.locales) {
+    const categories = new Map(
+      (await getLocalePosts(locale)).flatMap((post) => (post.category ? [[post.category.slug, post.category]] : []))
+    );
+    for (const [slug, category] of categories) {
+      paths.push({
+        params: { locale: getLocaleParam(locale), blog: getCategoryBase(locale) || undefined, category: slug },
+        props: { locale, type: 'category', taxonomy: category },
+      });
+    }
+  }
+  return paths;
+};
+
+/** */
+export const getStaticPathsTagFeed = async (format: FeedFormat): Promise<Array<FeedPath>> => {
+  if (!isTagFeedEnabled(format)) return [];
+
+  const paths: Array<FeedPath> = [];
+  for (const locale of I18N.locales) {
+    const tags = new Map(
+      (await getLocalePosts(locale)).flatMap((post) => (post.tags ?? []).map((tag) => [tag.slug, tag]))
+    );
+    for (const [slug, tag] of tags) {
+      paths.push({
+        params: { locale: getLocaleParam(locale), blog: getTagBase(locale) || undefined, tag: slug },
+        props: { locale, type: 'tag', taxonomy: tag },
+      });
+    }
+  }
+  return paths;
+};
+
+const getFeedItems = async (posts: Array<Post>): Promise<Array<FeedItem>> =>
+  Promise.all(
+    posts.map(async (post) => ({
+      url: String(getCanonical(getPermalink(post.permalink, 'post', post.locale))),
+      title: post.title,
+      summary: post.excerpt,
+      contentHtml: APP_BLOG.feeds.isFullContent ? await getPostHtml(post) : undefined,
+      image: await getPostImageUrl(post),
+      tags: post.tags?.map((tag) => tag.title) ?? [],
+      authors:
+        post.authors?.map((author) => ({
+          name: author.name,
+          url: isBlogAuthorRouteEnabled
+            ? String(getCanonical(getPermalink(author.slug, 'author', post.locale)))
+            : undefined,
+        })) ?? [],
+      published: post.publishDate,
+      updated: post.updateDate,
+    }))
+  );
+
+const XML_ENTITIES: Record<string, string> = { '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' };
+
+const escapeXml = (text: string) => text.replace(/[<>&'"]/g, (char) => XML_ENTITIES[char]);
+
+const getRss = ({ title, description, lang, items }: Feed) =>
+  getRssString({
+    title,
+    description,
+    site: import.meta.env.SITE,
+
+    items: items.map((item) => ({
+      link: item.url,
+      title: item.title,
+      description: item.summary,
+      pubDate: item.published,
+      categories: item.tags,
+      ...(item.contentHtml ? { content: item.contentHtml } : {}),
+      // RSS `author` must be an email address: names go to Dublin Core creators
+      customData: item.authors.map(({ name }) => `<dc:creator>${escapeXml(name)}</dc:creator>`).join(''),
+    })),
+    xmlns: { dc: 'http://purl.org/dc/elements/1.1/' },
+    customData: `<language>${lang}</language>`,
+
+    trailingSlash: SITE.trailingSlash,
+  });
+
+/** Atom 1.0 (RFC 4287) */
+const getAtom = ({ title, description, lang, homeUrl, feedUrl, author, items }: Feed) => {
+  const updated = items.length
+    ? items.reduce((latest, { published, updated = published }) => (updated > latest ? updated : latest), new Date(0))
+    : new Date();
+  const entries = items.map((item) =>
+    [
+      '  <entry>',
+      `    <id>${escapeXml(item.url)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `    <published>${item.published.toISOString()}</published>`,
+      `    <updated>${(item.updated ?? item.published).toISOString()}</updated>`,
+      ...item.authors.map(
+        ({ name, url }) =>
+          `    <author><name>${escapeXml(name)}</name>${url ? `<uri>${escapeXml(url)}</uri>` : ''}</author>`
+      ),
+      item.summary && `    <summary>${escapeXml(item.summary)}</summary>`,
+      item.contentHtml && `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+      ...item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      item.image && `    <link rel="enclosure" href="${escapeXml(item.image)}"/>`,
+      '  </entry>',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${lang}">`,
+    `  <id>${escapeXml(homeUrl)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    description && `  <subtitle>${escapeXml(description)}</subtitle>`,
+    `  <link rel="self" type="${FEED_FORMATS.atom.type}" href="${escapeXml(feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(homeUrl)}"/>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    `  <author><name>${escapeXml(author)}</name></author>`,
+    ...entries,
+    '</feed>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+};
+
+/** JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/) */
+const getJsonFeed = ({ title, description, lang, homeUrl, feedUrl, author, items }: Feed) =>
+  JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title,
+    home_page_url: homeUrl,
+    feed_url: feedUrl,
+    description: description || undefined,
+    language: lang,
+    authors: [{ name: author }],
+    items: items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      // Items need a content: the excerpt when the rendered post is not included
+      ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary ?? '' }),
+      image: item.image,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated?.toISOString(),
+      tags: item.tags.length ? item.tags : undefined,
+      authors: item.authors.length ? item.authors : undefined,
+    })),
+  });
+
+/**
+ * Feed of the posts of a locale, only those of a category or tag with `taxonomy` (see `getStaticPathsCategoryFeed`
+ * and `getStaticPathsTagFeed`). Items carry the rendered post with `apps.blog.feeds.isFullContent`.
+ */
+export const getFeedResponse = async (format: FeedFormat, { locale, type, taxonomy }: FeedProps): Promise<Response> => {
+  const posts = (await getLocalePosts(locale)).filter((post) =>
+    type === 'category'
+      ? post.category?.slug === taxonomy?.slug
+      : type === 'tag'
+        ? post.tags?.some((tag) => tag.slug === taxonomy?.slug)
+        : true
+  );
+
+  const taxonomyPath =
+    taxonomy && type ? `${type === 'category' ? getCategoryBase(locale) : getTagBase(locale)}/${taxonomy.slug}` : '';
+  const feed: Feed = {
+    title: getFeedTitle(locale, taxonomy),
+    description: getMetadata(locale)?.description || '',
+    lang: getLocaleSettings(locale).lang,
+    homeUrl: String(
+      getCanonical(taxonomy && type ? getPermalink(taxonomy.slug, type, locale) : getBlogPermalink(locale))
+    ),
+    feedUrl: String(
+      new URL(getFilePermalink(FEED_FORMATS[format].file, locale, taxonomyPath), String(getCanonical('/')))
+    ),
+    author: getSiteConfig(locale).name,
+    items: await getFeedItems(posts),
+  };
+
+  const body = format === 'atom' ? getAtom(feed) : format === 'json' ? getJsonFeed(feed) : await getRss(feed);
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': format === 'rss' ? 'application/xml' : FEED_FORMATS[format].type,
+    },
+  });
+};
@@ -1,5 +1,7 @@
+import type { GetStaticPathsOptions } from 'astro';
 import { getRelativeLocaleUrl } from 'astro:i18n';
-import { I18N } from 'astrowind:config';
+import { I18N, LOCALES } from 'astrowind:config';
+import { getLocalizedRoutes, getRoutePathFromPattern } from '~/utils/localized-routes';
 
 interface AstroGlobal {
   currentLocale?: string;
@@ -10,10 +12,39 @@ interface AstroGlobal {
 
 declare const Astro: AstroGlobal;
 
+/**
+ * Whether URLs of `locale` start with `/<locale>`: always, except for the default locale
+ * when `i18n.prefixDefaultLocale` is `false`.
+ */
+export const isLocalePrefixed = (locale: string): boolean => I18N.prefixDefaultLocale || locale !== I18N.defaultLocale;
+
+/**
+ * Value of the `[...locale]` route param for `locale`: `undefined` for the unprefixed default locale.
+ */
+export const getLocaleParam = (locale: string): string | undefined => (isLocalePrefixed(locale) ? locale : undefined);
+
+/**
+ * Settings of a locale from `i18n.localeSettings`: display `name`, BCP-47 `lang`, text `dir`, `region` and
+ * `dateFormat`. Unknown locales get the settings of the default locale.
+ */
+export const getLocaleSettings = (locale: string = getCurrentLocale()) =>
+  I18N.localeSettings[locale] ?? I18N.localeSettings[I18N.defaultLocale];
+
+const getLocaleConfig = (locale: string) => LOCALES[locale] ?? LOCALES[I18N.defaultLocale];
+
+/** `site` config of a locale, with its `locales.<code>.site` overrides. */
+export const getSiteConfig = (locale: string = getCurrentLocale()) => getLocaleConfig(locale).SITE;
+
+/** `metadata` config of a locale, with its `locales.<code>.metadata` overrides. */
+export const getMetadata = (locale: string = getCurrentLocale()) => getLocaleConfig(locale).METADATA;
+
+/** `navigation` config of a locale, with its `locales.<code>.navigation` overrides. */
+export const getNavigationConfig = (locale: string = getCurrentLocale()) => getLocaleConfig(locale).NAVIGATION;
+
 /**
  * Get the language from a URL object.
  * If Astro.i18n is available, returns current locale.
- * Fallback to I18N.defaultLocale.
+ * Otherwise the first path segment, when it is a locale; unprefixed paths belong to I18N.defaultLocale.
  * @throws {Error} If i18n configuration is missing and no locale can be determined
  */
 export function getLangFromUrl(url: URL): string {
@@ -47,9 +78,8 @@ export function useTranslatedPath(targetLocale?: string): (path: string, locale?
     } catch (e) {
       console.warn('Failed to generate translated path', e);
     }
-    // Fallback: prepend locale if not default
-    const defaultLocale = I18N.defaultLocale;
-    const shouldPrefix = target !== defaultLocale;
+    // Fallback: prepend locale if its URLs are prefixed
+    const shouldPrefix = isLocalePrefixed(target);
     const cleanPath = path.startsWith('/') ? path.slice(1) : path;
     return shouldPrefix ? `/${target}/${cleanPath}` : `/${cleanPath}`;
   };
@@ -97,10 +127,58 @@ export function getPathWithoutLocale(pathname: string): string {
 
 /**
  * Generate static paths for all locales.
- * Used in page components for Astro's getStaticPaths.
+ * Used in page components for Astro's getStaticPaths; the default locale gets no `locale` param when unprefixed.
+ * Locales for which the page declares a localized `navigation.slug` are skipped: they are served at the
+ * localized path by `src/pages/[...locale]/[...localizedPage].astro` instead.
  */
-export const getStaticPathsForLocale = () =>
-  I18N.locales.map((locale: string) => ({
-    params: { locale },
-    props: { locale },
-  }));
+export const getStaticPathsForLocale = async ({ routePattern }: Partial<GetStaticPathsOptions> = {}) => {
+  const routePath = routePattern ? getRoutePathFromPattern(routePattern) : undefined;
+  const localizedRoute = (await getLocalizedRoutes()).find((route) => route.routePath === routePath);
+
+  return I18N.locales
+    .filter((locale: string) => !localizedRoute?.slugs[locale])
+    .map((locale: string) => ({
+      params: { locale: getLocaleParam(locale) },
+      props: { locale },
+    }));
+};
+
+/** Index of the plural form of a count, as in the `Plural-Forms` of a `.po` catalog. */
+export type PluralRule = (count: number) => number;
+
+const PLURAL_CATEGORIES: Array<Intl.LDMLPluralRule> = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * Plural rule of a locale from `Intl.PluralRules`: forms are ordered by CLDR category (`one`, `few`, `many`,
+ * `other`...), which matches the gettext order of the bundled locales (`nplurals=2`, `one` first).
+ */
+export const getPluralRule = (locale: string = getCurrentLocale()): PluralRule => {
+  const rules = new Intl.PluralRules(getLocaleSettings(locale).lang);
+  const categories = PLURAL_CATEGORIES.filter((category) =>
+    rules.resolvedOptions().pluralCategories.includes(category)
+  );
+  return (count: number) => categories.indexOf(rules.select(count));
+};
+
+/** Format a number with the conventions of a locale, e.g. `1,234.5` (en) or `1.234,5` (de). */
+export const formatNumber = (
+  value: number,
+  options: Intl.NumberFormatOptions = {},
+  locale: string = getCurrentLocale()
+): string => new Intl.NumberFormat(getLocaleSettings(locale).lang, options).format(value);
+
+/**
+ * Returns a `plural(count, candidates)` function for a locale: it picks the candidate for `count` and replaces `#`
+ * with the formatted count, e.g. `plural(5, ['# minute read', '# minutes read'])` -> `5 minutes read`.
+ * wuchale extracts such calls as plural messages (`msgid` / `msgid_plural`) and calls `plural` with the forms and
+ * `Plural-Forms` rule of the loaded catalog; the rule of `getPluralRule` applies otherwise.
+ */
+export function usePlural(
+  locale: string = getCurrentLocale()
+): (count: number, candidates: Array<string>, rule?: PluralRule) => string {
+  const defaultRule = getPluralRule(locale);
+  return (count: number, candidates: Array<string>, rule: PluralRule = defaultRule) => {
+    const candidate = candidates[Math.min(Math.max(rule(count), 0), candidates.length - 1)] ?? '';
+    return candidate.replace('#', formatNumber(count, {}, locale));
+  };
+}
@@ -0,0 +1,107 @@
+import type { AstroComponentFactory } from 'astro/runtime/server/index.js';
+import { I18N } from 'astrowind:config';
+import type { AutoNavConfig } from '~/types';
+import { getLocaleParam } from '~/utils/i18n';
+
+type PageModule = {
+  default: AstroComponentFactory;
+  navigation?: AutoNavConfig;
+};
+
+export interface LocalizedRoute {
+  /** Route path of the page file, e.g. `homes/saas` */
+  routePath: string;
+  /** Localized route path per locale, only for locales where it differs from `routePath` */
+  slugs: Record<string, string>;
+  Page: AstroComponentFactory;
+}
+
+const trimSlashes = (path = '') => path.replace(/^\/+|\/+$/g, '');
+
+/**
+ * Extract the route path from a page file path
+ * e.g., /src/pages/[...locale]/homes/saas.astro -> homes/saas
+ */
+const getRoutePathFromFile = (filePath: string): string =>
+  trimSlashes(
+    filePath
+      .replace(/^\/src\/pages\/\[\.\.\.locale\]/, '')
+      .replace(/\.astro$/, '')
+      .replace(/(^|\/)index$/, '')
+  );
+
+/**
+ * Extract the route path from an Astro route pattern
+ * e.g., /[...locale]/homes/saas -> homes/saas
+ */
+export const getRoutePathFromPattern = (routePattern: string): string =>
+  trimSlashes(routePattern.replace(/^\/?\[\.\.\.locale\]/, ''));
+
+/**
+ * Get the path of a static page in a locale: its `navigation.slug` entry for that locale
+ * (when `slug` is a per-locale map) or the route path of the file.
+ */
+export const getLocalizedRoutePath = (routePath: string, slug: AutoNavConfig['slug'], locale: string): string =>
+  trimSlashes((slug && typeof slug === 'object' && slug[locale]) || routePath);
+
+// Lazy glob: pages import this module (through `getStaticPathsForLocale`), so they can't be loaded eagerly here.
+// `[...locale]` is the only directory of `src/pages` (globs can't match its brackets literally)
+const pageModules = import.meta.glob<PageModule>('/src/pages/*/**/*.astro');
+
+let _localizedRoutes: Promise<Array<LocalizedRoute>>;
+
+/** Static pages exporting a per-locale `navigation.slug` map. */
+export const getLocalizedRoutes = (): Promise<Array<LocalizedRoute>> => {
+  if (!_localizedRoutes) {
+    _localizedRoutes = Promise.all(
+      Object.entries(pageModules)
+        // Only static routes can be localized
+        .filter(([filePath]) => !getRoutePathFromFile(filePath).includes('['))
+        .map(async ([filePath, load]) => {
+          const module = await load();
+          const routePath = getRoutePathFromFile(filePath);
+          const slugs: Record<string, string> = {};
+          for (const locale of I18N.locales) {
+            const localizedPath = getLocalizedRoutePath(routePath, module.navigation?.slug, locale);
+            if (localizedPath !== routePath) {
+              slugs[locale] = localizedPath;
+            }
+          }
+          return { routePath, slugs, Page: module.default };
+        })
+    ).then((routes) => routes.filter((route) => Object.keys(route.slugs).length > 0));
+  }
+
+  return _localizedRoutes;
+};
+
+/** Find the localized route serving `pathWithoutLocale` in `locale`, through either its localized or original path. */
+export const findLocalizedRoute = async (
+  pathWithoutLocale: string,
+  locale: string
+): Promise<LocalizedRoute | undefined> => {
+  const path = trimSlashes(pathWithoutLocale);
+  return (await getLocalizedRoutes()).find((route) => (route.slugs[locale] || route.routePath) === path);
+};
+
+/**
+ * Map a path without locale prefix from one locale to another, translating localized page slugs,
+ * e.g. `/sobre-nosotros` (es) -> `/ueber-uns` (de).
+ */
+export const getLocalizedPathWithoutLocale = async (
+  pathWithoutLocale: string,
+  fromLocale: string,
+  toLocale: string
+): Promise<string> => {
+  const route = await findLocalizedRoute(pathWithoutLocale, fromLocale);
+  return route ? `/${route.slugs[toLocale] || route.routePath}` : pathWithoutLocale;
+};
+
+/** Generate the localized paths of static pages, rendered by `src/pages/[...locale]/[...localizedPage].astro`. */
+export const getStaticPathsLocalizedPages = async () =>
+  (await getLocalizedRoutes()).flatMap(({ slugs, Page }) =>
+    Object.entries(slugs).map(([locale, localizedPage]) => ({
+      params: { locale: getLocaleParam(locale), localizedPage },
+      props: { locale, Page },
+    }))
+  );
@@ -2,14 +2,20 @@ import { getCollection, render } from 'astro:content';
 import type { CollectionEntry } from 'astro:content';
 import type { AstroComponentFactory } from 'astro/runtime/server/index.js';
 import { I18N } from 'astrowind:config';
-import { cleanSlug } from './permalinks';
+import { cleanSlug, getPagePermalink, trimSlash } from './permalinks';
+import { getLocaleParam } from './i18n';
 
 const getLangFromPageId = (id: string): string => id.split('/')[0];
+const getTranslationKeyFromPageId = (id: string): string => id.split('/').slice(1).join('/') || id;
 
 export type NormalizedPage = {
   id: string;
   slug: string;
   permalink: string;
+  locale: string;
+  translationKey: string;
+  /** Locale of the content when the page is rendered as a fallback for a missing translation. */
+  fallbackLocale?: string;
   title: string;
   Content: AstroComponentFactory;
 };
@@ -18,28 +24,30 @@ const getNormalizedPage = async (page: CollectionEntry<'pages'>): Promise<Normal
   const { id, data } = page;
   const { Content } = await render(page);
 
-  const { title } = data;
+  const { title, translationKey } = data;
 
   const slug = cleanSlug(id.split('/').pop() || id);
-  const permalink = `/${getLangFromPageId(id)}/pages/${slug}`;
+  const permalink = getPagePermalink(slug, getLangFromPageId(id));
 
   return {
     id,
     slug,
     permalink,
+    locale: getLangFromPageId(id),
+    translationKey: translationKey ? trimSlash(translationKey) : getTranslationKeyFromPageId(id),
     title,
     Content,
   };
 };
 
 const load = async function (lang?: string): Promise<Array<NormalizedPage>> {
-  const pages = await getCollection('pages');
+  const pages = await getCollection('pages', ({ data }) => !data.draft);
   const normalizedPages = pages.map(async (page) => await getNormalizedPage(page));
 
   let results = await Promise.all(normalizedPages);
 
   if (lang) {
-    results = results.filter((page) => getLangFromPageId(page.id) === lang);
+    results = results.filter((page) => page.locale === lang);
   }
 
   return results;
@@ -47,6 +55,8 @@ const load = async function (lang?: string): Promise<Array<NormalizedPage>> {
 
 let _pages: Array<NormalizedPage>;
 
+export const isPageFallbackEnabled = I18N.fallback.pages.isEnabled;
+
 /** */
 export const fetchPages = async (lang?: string): Promise<Array<NormalizedPage>> => {
   if (!_pages) {
@@ -54,7 +64,7 @@ export const fetchPages = async (lang?: string): Promise<Array<NormalizedPage>>
   }
 
   if (lang) {
-    return _pages.filter((page) => getLangFromPageId(page.id) === lang);
+    return _pages.filter((page) => page.locale === lang);
   }
 
   return _pages;
@@ -66,23 +76,55 @@ export const findPageBySlug = async (slug: string, lang?: string): Promise<Norma
   return pages.find((page) => page.slug === slug);
 };
 
+/**
+ * Get all translations of a page, keyed by locale (the page itself included).
+ * Pages are linked through their `translationKey`, which defaults to the file path inside the locale folder.
+ */
+export const getTranslations = async (page: NormalizedPage): Promise<Record<string, NormalizedPage>> => {
+  const pages = await fetchPages();
+
+  return pages.reduce((translations: Record<string, NormalizedPage>, iteratedPage: NormalizedPage) => {
+    if (iteratedPage.translationKey === page.translationKey) {
+      translations[iteratedPage.locale] = iteratedPage;
+    }
+    return translations;
+  }, {});
+};
+
+/** Default-locale pages without a translation in `locale`, rendered as fallback entries. */
+export const getFallbackPages = async (locale: string): Promise<Array<NormalizedPage>> => {
+  if (!isPageFallbackEnabled || locale === I18N.defaultLocale) return [];
+
+  const pages = await fetchPages();
+  const translatedKeys = new Set(pages.filter((page) => page.locale === locale).map((page) => page.translationKey));
+
+  return pages
+    .filter((page) => page.locale === I18N.defaultLocale && !translatedKeys.has(page.translationKey))
+    .map((page) => ({
+      ...page,
+      permalink: getPagePermalink(page.slug, locale),
+      locale,
+      fallbackLocale: page.locale,
+    }));
+};
+
 /** */
 export const getStaticPathsPages = async (): Promise<
   Array<{
-    params: { locale: string; pages: string };
+    params: { locale: string | undefined; pages: string };
     props: { page: NormalizedPage; locale: string };
   }>
 > => {
   const paths: Array<{
-    params: { locale: string; pages: string };
+    params: { locale: string | undefined; pages: string };
     props: { page: NormalizedPage; locale: string };
   }> = [];
   for (const locale of I18N.locales) {
-    const pages = await load(locale);
+    const pages = [...(await load(locale)), ...(await getFallbackPages(locale))];
     for (const page of pages) {
       paths.push({
         params: {
-          locale,
+          locale: getLocaleParam(locale),
           pages: `pages/${page.slug}`,
         },
         props: { page, locale },
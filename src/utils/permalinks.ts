@@ -1,9 +1,9 @@
 import slugify from 'limax';
 
-import { SITE, APP_BLOG } from 'astrowind:config';
+import { SITE, APP_BLOG, I18N } from 'astrowind:config';
 
 import { trim } from '~/utils/utils';
-import { getCurrentLocale } from '~/utils/i18n';
+import { getCurrentLocale, isLocalePrefixed } from '~/utils/i18n';
 
 export const trimSlash = (s: string) => trim(trim(s, '/'));
 const createPath = (...params: string[]) => {
@@ -22,11 +22,44 @@ export const cleanSlug = (text = '') =>
     .map((slug) => slugify(slug))
     .join('/');
 
-export const BLOG_BASE = cleanSlug(APP_BLOG?.list?.pathname);
-export const CATEGORY_BASE = cleanSlug(APP_BLOG?.category?.pathname);
-export const TAG_BASE = cleanSlug(APP_BLOG?.tag?.pathname) || 'tag';
+/**
+ * Resolve a config value that may be given once or per locale (e.g. `pathname: { en: 'blog', es: 'articulos' }`).
+ * Locales missing from the map use the value of the default locale.
+ */
+export const getLocalizedValue = (
+  value: string | Record<string, string> | undefined,
+  locale: string = I18N.defaultLocale
+): string | undefined => (value && typeof value === 'object' ? (value[locale] ?? value[I18N.defaultLocale]) : value);
 
-export const POST_PERMALINK_PATTERN = trimSlash(APP_BLOG?.post?.permalink || `${BLOG_BASE}/%slug%`);
+/** */
+export const getBlogBase = (locale?: string): string => cleanSlug(getLocalizedValue(APP_BLOG?.list?.pathname, locale));
+/** */
+export const getCategoryBase = (locale?: string): string =>
+  cleanSlug(getLocalizedValue(APP_BLOG?.category?.pathname, locale));
+/** */
+export const getTagBase = (locale?: string): string =>
+  cleanSlug(getLocalizedValue(APP_BLOG?.tag?.pathname, locale)) || 'tag';
+/** Archive path, `pathname` under the blog list path, e.g. `articulos/archivo` */
+export const getArchiveBase = (locale?: string): string =>
+  [getBlogBase(locale), cleanSlug(getLocalizedValue(APP_BLOG?.archive?.pathname, locale)) || 'archive']
+    .filter((el) => !!el)
+    .join('/');
+/** */
+export const getAuthorBase = (locale?: string): string =>
+  cleanSlug(getLocalizedValue(APP_BLOG?.author?.pathname, locale)) || 'author';
+/** */
+export const getSeriesBase = (locale?: string): string =>
+  cleanSlug(getLocalizedValue(APP_BLOG?.series?.pathname, locale)) || 'series';
+/** */
+export const getPostPermalinkPattern = (locale?: string): string =>
+  trimSlash(getLocalizedValue(APP_BLOG?.post?.permalink, locale) || `${getBlogBase(locale)}/%slug%`);
+
+// Bases of the default locale
+export const BLOG_BASE = getBlogBase();
+export const CATEGORY_BASE = getCategoryBase();
+export const TAG_BASE = getTagBase();
+
+export const POST_PERMALINK_PATTERN = getPostPermalinkPattern();
 
 /** */
 export const getCanonical = (path = ''): string | URL => {
@@ -53,6 +86,9 @@ export const getPermalink = (slug = '', type = 'page', locale?: string): string
     return slug;
   }
 
+  // AUTO-DETECT LOCALE WHEN NOT PROVIDED
+  const effectiveLocale = locale ?? getCurrentLocale();
+
   switch (type) {
     case 'home':
       return getHomePermalink(locale);
@@ -65,11 +101,23 @@ export const getPermalink = (slug = '', type = 'page', locale?: string): string
       break;
 
     case 'category':
-      permalink = createPath(CATEGORY_BASE, trimSlash(slug));
+      permalink = createPath(getCategoryBase(effectiveLocale), trimSlash(slug));
       break;
 
     case 'tag':
-      permalink = createPath(TAG_BASE, trimSlash(slug));
+      permalink = createPath(getTagBase(effectiveLocale), trimSlash(slug));
+      break;
+
+    case 'archive':
+      permalink = createPath(getArchiveBase(effectiveLocale), trimSlash(slug));
+      break;
+
+    case 'author':
+      permalink = createPath(getAuthorBase(effectiveLocale), trimSlash(slug));
+      break;
+
+    case 'series':
+      permalink = createPath(getSeriesBase(effectiveLocale), trimSlash(slug));
       break;
 
     case 'post':
@@ -82,17 +130,19 @@ export const getPermalink = (slug = '', type = 'page', locale?: string): string
       break;
   }
 
-  // AUTO-DETECT LOCALE WHEN NOT PROVIDED
-  const effectiveLocale = locale ?? getCurrentLocale();
-  const prefixed = effectiveLocale ? `/${effectiveLocale}${permalink}` : permalink;
-  return definitivePermalink(prefixed);
+  return definitivePermalink(permalink, effectiveLocale);
 };
 
 /** */
 export const getHomePermalink = (locale?: string): string => getPermalink('/', 'page', locale);
 
 /** */
-export const getBlogPermalink = (locale?: string): string => getPermalink(BLOG_BASE, 'page', locale);
+export const getBlogPermalink = (locale?: string): string =>
+  getPermalink(getBlogBase(locale ?? getCurrentLocale()), 'page', locale);
+
+/** Archive of a year or month (1-12), e.g. `/es/articulos/archivo/2024/05`; the archive index without `year` */
+export const getArchivePermalink = (year?: number, month?: number, locale?: string): string =>
+  getPermalink([year, month && String(month).padStart(2, '0')].filter((el) => !!el).join('/'), 'archive', locale);
 
 /** */
 export const getPagePermalink = (slug: string, locale?: string): string =>
@@ -106,8 +156,48 @@ export const getAsset = (path: string): string =>
     .filter((el) => !!el)
     .join('/');
 
-/** */
-const definitivePermalink = (permalink: string): string => createPath(BASE_PATHNAME, permalink);
+/** URL of a file of a locale, e.g. `/es/rss.xml` or `/es/categoria/tutoriales/rss.xml` (no trailing slash) */
+export const getFilePermalink = (file = 'rss.xml', locale: string = getCurrentLocale(), path = ''): string =>
+  getAsset([isLocalePrefixed(locale) ? locale : '', path, file].filter((el) => !!el).join('/'));
+
+/**
+ * Translate the route bases of a blog list, category, tag, author, series or archive path (without locale prefix)
+ * between locales, e.g. `/articulos/categoria/tutoriales` (es) -> `/blog/category/tutoriales` (en).
+ * Returns `undefined` when the path is not under any blog base of `fromLocale`.
+ */
+export const getLocalizedBlogPath = (
+  pathWithoutLocale: string,
+  fromLocale: string,
+  toLocale: string
+): { type: 'blog' | 'category' | 'tag' | 'author' | 'series' | 'archive'; path: string; rest: string } | undefined => {
+  const path = trimSlash(pathWithoutLocale);
+  const bases: Array<{
+    type: 'blog' | 'category' | 'tag' | 'author' | 'series' | 'archive';
+    from: string;
+    to: string;
+  }> = [
+    { type: 'category', from: getCategoryBase(fromLocale), to: getCategoryBase(toLocale) },
+    { type: 'tag', from: getTagBase(fromLocale), to: getTagBase(toLocale) },
+    { type: 'author', from: getAuthorBase(fromLocale), to: getAuthorBase(toLocale) },
+    { type: 'series', from: getSeriesBase(fromLocale), to: getSeriesBase(toLocale) },
+    { type: 'archive', from: getArchiveBase(fromLocale), to: getArchiveBase(toLocale) },
+    { type: 'blog', from: getBlogBase(fromLocale), to: getBlogBase(toLocale) },
+  ];
+
+  // Longest base first, so nested bases like `blog/category` win over `blog`
+  for (const { type, from, to } of bases.sort((a, b) => b.from.length - a.from.length)) {
+    if (from && (path === from || path.startsWith(`${from}/`))) {
+      const rest = trimSlash(path.slice(from.length));
+      return { type, path: createPath(to, rest), rest };
+    }
+  }
+
+  return undefined;
+};
+
+/** Prepend the base and, unless it is the unprefixed default locale, the locale */
+const definitivePermalink = (permalink: string, locale?: string): string =>
+  createPath(BASE_PATHNAME, locale && isLocalePrefixed(locale) ? locale : '', permalink);
 
 /** */
 export const applyGetPermalinks = (menu: object = {}) => {
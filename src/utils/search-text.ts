@@ -0,0 +1,180 @@
+/**
+ * Locale-aware tokenization for the search index, shared by the build (`src/utils/search.ts`) and the browser
+ * (`SearchBox.astro`), so that queries and content are stemmed alike, and by related posts (`src/utils/blog.ts`).
+ * No `astro:*` imports here.
+ */
+
+interface SearchLanguage {
+  stopWords: Set<string>;
+  stem: (word: string) => string;
+}
+
+/** Suffix rules: the first suffix of a pass that the word ends with is replaced, if the stem keeps `minStem` letters. */
+type SuffixPass = Array<[suffix: string, replacement: string]>;
+
+/** Lowercase, without diacritics: `Canción` -> `cancion`, `Straße` -> `strasse`. */
+export const normalizeText = (text: string): string =>
+  text.toLowerCase().replace(/ß/g, 'ss').normalize('NFD').replace(/\p{M}/gu, '');
+
+const applyPasses = (word: string, passes: Array<SuffixPass>, minStem: number) =>
+  passes.reduce((stem, pass) => {
+    const rule = pass.find(([suffix]) => stem.endsWith(suffix));
+    const replaced = rule ? stem.slice(0, -rule[0].length) + rule[1] : stem;
+    return replaced.length >= minStem ? replaced : stem;
+  }, word);
+
+const createLanguage = (stopWords: string, passes: Array<SuffixPass>, minStem = 3): SearchLanguage => ({
+  stopWords: new Set(stopWords.split(/\s+/).map(normalizeText)),
+  stem: (word) => (/^\p{L}+$/u.test(word) ? applyPasses(word, passes, minStem) : word),
+});
+
+// Light stemmers: inflections and the most common derivations, conflating more often than not
+const LANGUAGES: Record<string, SearchLanguage> = {
+  en: createLanguage(
+    `a about above after again all also am an and any are as at be because been before being below between both but by
+    can could did do does doing down during each few for from further had has have having he her here hers him his how
+    i if in into is it its itself just me more most my no nor not now of off on once only or other our out over own
+    same she should so some such than that the their them then there these they this those through to too under until
+    up very was we were what when where which while who whom why will with would you your`,
+    [
+      [
+        ['sses', 'ss'],
+        ['ies', 'y'],
+        ['ss', 'ss'],
+        ['us', 'us'],
+        ['is', 'is'],
+        ['s', ''],
+      ],
+      [
+        ['ingly', ''],
+        ['edly', ''],
+        ['ing', ''],
+        ['ed', ''],
+      ],
+      [
+        ['bb', 'b'],
+        ['dd', 'd'],
+        ['gg', 'g'],
+        ['mm', 'm'],
+        ['nn', 'n'],
+        ['pp', 'p'],
+        ['rr', 'r'],
+        ['tt', 't'],
+      ],
+      [
+        ['ational', 'ate'],
+        ['ization', 'ize'],
+        ['ation', 'ate'],
+        ['fulness', 'ful'],
+        ['iveness', 'ive'],
+        ['ousness', 'ous'],
+        ['ness', ''],
+        ['ment', ''],
+        ['ly', ''],
+      ],
+      [['e', '']],
+    ]
+  ),
+  es: createLanguage(
+    `a al algo algunas algunos ante antes como con contra cual cuando de del desde donde durante e el ella ellas ellos
+    en entre era eran es esa esas ese eso esos esta estaba estado estan estas este esto estos fue fueron ha habia han
+    hasta hay la las le les lo los mas me mi mis muy nada ni no nos nosotros o os otra otro para pero poco por porque
+    que quien se sea ser si sin sobre son su sus tambien te tiene tu tus un una uno unos y ya yo`,
+    [
+      [['mente', '']],
+      [
+        ['aciones', 'acion'],
+        ['iciones', 'icion'],
+        ['idades', 'idad'],
+        ['ces', 'z'],
+        ['es', ''],
+        ['s', ''],
+      ],
+      [
+        ['a', ''],
+        ['o', ''],
+        ['e', ''],
+      ],
+    ]
+  ),
+  fr: createLanguage(
+    `a ai au aux avec ce ces cette dans de des du elle elles en est et etait eu il ils je la le les leur leurs lui ma
+    mais me meme mes moi mon ne nos notre nous on ou par pas pour qu que qui sa se ses son sont sur ta te tes toi ton tu
+    un une vos votre vous y c d j l m n s t`,
+    [
+      [
+        ['issement', 'iss'],
+        ['ement', ''],
+        ['ment', ''],
+      ],
+      [
+        ['aux', 'al'],
+        ['eux', 'eu'],
+        ['x', ''],
+        ['s', ''],
+      ],
+      [
+        ['ee', ''],
+        ['er', ''],
+        ['e', ''],
+      ],
+    ]
+  ),
+  de: createLanguage(
+    `aber alle als also am an auch auf aus bei bin bis bist da dann das dass dein deine dem den der des die dies diese
+    dieser dieses doch dort du durch ein eine einem einen einer eines er es etwas fur hat hatte ich ihr im in ist ja
+    jede jeder kann kein man mit muss nach nicht noch nur ob oder ohne sehr sein sich sie sind so uber um und uns unter
+    vom von vor war waren was weil wenn werden wie wir wird zu zum zur`,
+    [
+      [
+        ['ungen', 'ung'],
+        ['heiten', 'heit'],
+        ['keiten', 'keit'],
+      ],
+      [
+        ['ern', ''],
+        ['em', ''],
+        ['en', ''],
+        ['er', ''],
+        ['es', ''],
+        ['e', ''],
+        ['s', ''],
+      ],
+    ],
+    4
+  ),
+};
+
+/** Stop words and stemmer of a locale or BCP-47 tag (`es`, `es-ES`); other languages are only normalized. */
+const getSearchLanguage = (locale: string): SearchLanguage | undefined => LANGUAGES[locale.toLowerCase().split('-')[0]];
+
+/**
+ * Search terms of a text: normalized words of 2+ characters (numbers included), without stop words, stemmed for
+ * en, es, fr and de. E.g. `tokenize('Deploying the websites', 'en')` -> `['deploy', 'websit']`.
+ */
+export const tokenize = (text: string, locale: string): Array<string> => {
+  const language = getSearchLanguage(locale);
+  return (normalizeText(text).match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((word) => word.length > 1 && !language?.stopWords.has(word))
+    .map((word) => (language ? language.stem(word) : word));
+};
+
+/** Headings and plain text of a Markdown/MDX body: code, MDX statements and components, HTML and URLs removed. */
+export const getMarkdownText = (body = ''): { headings: Array<string>; text: string } => {
+  const lines = body
+    .replace(/^(`{3,}|~{3,})[\s\S]*?^\1/gm, '')
+    .replace(/^(import|export)\s.*$/gm, '')
+    .replace(/<!--[\s\S]*?-->|<[^>]+>|\{[^}]*\}/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .split('\n');
+
+  return {
+    headings: lines.filter((line) => /^#{1,6}\s/.test(line)).map((line) => line.replace(/^#+\s*/, '')),
+    text: lines
+      .map((line) => line.replace(/^\s*(#{1,6}|[-*+]|\d+\.|>)\s+/, '').replace(/[*_`|~]+/g, ' '))
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim(),
+  };
+};
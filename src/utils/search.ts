@@ -0,0 +1,120 @@
+import { getCollection } from 'astro:content';
+import { I18N } from 'astrowind:config';
+
+import { fetchPosts, isBlogEnabled, isBlogPostRouteEnabled } from '~/utils/blog';
+import { getLocaleParam, getLocaleSettings } from '~/utils/i18n';
+import { fetchPages } from '~/utils/pages';
+import { getPermalink } from '~/utils/permalinks';
+import { getMarkdownText, tokenize } from '~/utils/search-text';
+
+export interface SearchDocument {
+  url: string;
+  title: string;
+  excerpt?: string;
+  type: 'post' | 'page';
+}
+
+export interface SearchIndex {
+  /** BCP-47 tag the texts were tokenized with (see `tokenize`) */
+  lang: string;
+  documents: Array<SearchDocument>;
+  /** Postings of each term: `[document index, score]` */
+  terms: Record<string, Array<[number, number]>>;
+}
+
+interface SearchSource extends SearchDocument {
+  headings: Array<string>;
+  tags: Array<string>;
+  body: string;
+}
+
+// Score of a term occurrence in each field
+const FIELD_WEIGHTS = { title: 10, headings: 5, tags: 5, excerpt: 3, body: 1 };
+
+const EXCERPT_LENGTH = 160;
+
+/** Published posts (when the post route is enabled) and pages written in a locale, with their indexed fields. */
+const getSearchSources = async (locale: string): Promise<Array<SearchSource>> => {
+  const sources: Array<SearchSource> = [];
+
+  if (isBlogEnabled && isBlogPostRouteEnabled) {
+    const bodies = new Map<string, string | undefined>(
+      (await getCollection('post')).map((entry) => [entry.id, entry.body])
+    );
+    // Drafts and scheduled posts are only published in dev and preview builds
+    const posts = (await fetchPosts()).filter((post) => post.locale === locale && !post.draft && !post.scheduled);
+    for (const post of posts) {
+      const { headings, text } = getMarkdownText(bodies.get(post.id));
+      sources.push({
+        url: getPermalink(post.permalink, 'post', locale),
+        title: post.title,
+        excerpt: post.excerpt,
+        type: 'post',
+        headings,
+        tags: [post.category, ...(post.tags ?? [])].flatMap((taxonomy) => (taxonomy ? [taxonomy.title] : [])),
+        body: text,
+      });
+    }
+  }
+
+  const bodies = new Map<string, string | undefined>(
+    (await getCollection('pages')).map((entry) => [entry.id, entry.body])
+  );
+  for (const page of await fetchPages(locale)) {
+    const { headings, text } = getMarkdownText(bodies.get(page.id));
+    sources.push({
+      url: page.permalink,
+      title: page.title,
+      excerpt: text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, '')}…` : text,
+      type: 'page',
+      headings,
+      tags: [],
+      body: text,
+    });
+  }
+
+  return sources;
+};
+
+/**
+ * Search index of a locale, served as JSON by `src/pages/[...locale]/search.json.ts` and queried in the browser
+ * (see `SearchBox.astro`): title, excerpt, headings, tags and body text of its posts and pages, tokenized for its
+ * language. Drafts and fallback copies of other locales are not indexed.
+ */
+export const getSearchIndex = async (locale: string): Promise<SearchIndex> => {
+  const { lang } = getLocaleSettings(locale);
+  const sources = await getSearchSources(locale);
+  const terms: Record<string, Array<[number, number]>> = {};
+
+  sources.forEach((source, index) => {
+    const scores = new Map<string, number>();
+    const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+      title: source.title,
+      headings: source.headings.join(' '),
+      tags: source.tags.join(' '),
+      excerpt: source.excerpt ?? '',
+      body: source.body,
+    };
+    for (const [field, text] of Object.entries(fields)) {
+      for (const term of tokenize(text, lang)) {
+        scores.set(term, (scores.get(term) ?? 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+    for (const [term, score] of scores) {
+      (terms[term] ??= []).push([index, score]);
+    }
+  });
+
+  return {
+    lang,
+    documents: sources.map(({ url, title, excerpt, type }) => ({ url, title, excerpt, type })),
+    terms,
+  };
+};
+
+/** One search index per locale, next to its home page (e.g. `/search.json`, `/es/search.json`) */
+export const getStaticPathsSearchIndex = async () =>
+  I18N.locales.map((locale: string) => ({
+    params: { locale: getLocaleParam(locale) },
+    props: { locale },
+  }));
@@ -0,0 +1,197 @@
+import { getRelativeLocaleUrl } from 'astro:i18n';
+import { I18N } from 'astrowind:config';
+
+import {
+  fetchPosts,
+  getFallbackPosts,
+  getTranslations as getPostTranslations,
+  isBlogEnabled,
+  isBlogListRouteEnabled,
+  isPostFallbackShownInLists,
+} from '~/utils/blog';
+import { fetchPages, getFallbackPages, getTranslations as getPageTranslations } from '~/utils/pages';
+import { getPathWithoutLocale, isLocalePrefixed } from '~/utils/i18n';
+import { getLocalizedPathWithoutLocale } from '~/utils/localized-routes';
+import {
+  getArchivePermalink,
+  getBlogPermalink,
+  getHomePermalink,
+  getLocalizedBlogPath,
+  getPagePermalink,
+  getPermalink,
+  trimSlash,
+} from '~/utils/permalinks';
+import { getYearMonth } from '~/utils/utils';
+import type { Post } from '~/types';
+
+export interface LocaleAlternate {
+  locale: string;
+  url: string;
+  /** `false` when the current entry has no translation in this locale and `url` points to a fallback page. */
+  isAvailable: boolean;
+}
+
+const isSamePath = (a: string, b: string) => trimSlash(a) === trimSlash(b);
+
+/** Posts shown in the list, category and tag pages of a locale. */
+const getListedPosts = async (locale: string): Promise<Array<Post>> => [
+  ...(await fetchPosts()).filter((post) => post.locale === locale),
+  ...(isPostFallbackShownInLists ? await getFallbackPosts(locale) : []),
+];
+
+/**
+ * Build the URL of a path (already stripped of its locale prefix) in another locale.
+ * The path must already be the one used by the target locale (see `getLocalizedPathWithoutLocale`).
+ */
+export const getLocalizedPath = (locale: string, pathWithoutLocale: string): string => {
+  let url: string;
+  try {
+    url = getRelativeLocaleUrl(locale, pathWithoutLocale);
+    // Ensure no trailing slash to match trailingSlash: 'never' config
+    if (url.endsWith('/') && url !== '/') {
+      url = url.slice(0, -1);
+    }
+  } catch {
+    // Fallback: manually construct URL
+    const shouldPrefix = isLocalePrefixed(locale);
+    const cleanPath = pathWithoutLocale === '/' ? '' : pathWithoutLocale;
+    url = shouldPrefix ? `/${locale}${cleanPath}` : cleanPath || '/';
+  }
+  return url;
+};
+
+/**
+ * Resolve the equivalent of `pathname` in every configured locale.
+ * Blog posts and markdown pages are matched through their translation group, so translated slugs are honored.
+ * When an entry has no translation, its fallback render (if `i18n.fallback` is enabled for the collection) or else
+ * the locale's blog index (posts) or home (pages) is returned instead.
+ */
+export const getLocaleAlternates = async (
+  pathname: string,
+  currentLocale: string = I18N.defaultLocale
+): Promise<Array<LocaleAlternate>> => {
+  if (isBlogEnabled) {
+    // Own posts of the current locale and fallback renders of untranslated default-locale posts
+    const post = [
+      ...(await fetchPosts()).filter((post) => post.locale === currentLocale),
+      ...(await getFallbackPosts(currentLocale)),
+    ].find((post) => isSamePath(getPermalink(post.permalink, 'post', currentLocale), pathname));
+
+    if (post) {
+      const translations = await getPostTranslations(post);
+      return Promise.all(
+        I18N.locales.map(async (locale: string) => {
+          if (translations[locale]) {
+            return { locale, url: getPermalink(translations[locale].permalink, 'post', locale), isAvailable: true };
+          }
+          const fallback = (await getFallbackPosts(locale)).find(
+            (fallback) => fallback.translationKey === post.translationKey
+          );
+          if (fallback) {
+            return { locale, url: getPermalink(fallback.permalink, 'post', locale), isAvailable: false };
+          }
+          return {
+            locale,
+            url: isBlogListRouteEnabled ? getBlogPermalink(locale) : getHomePermalink(locale),
+            isAvailable: false,
+          };
+        })
+      );
+    }
+  }
+
+  const page = [...(await fetchPages(currentLocale)), ...(await getFallbackPages(currentLocale))].find((page) =>
+    isSamePath(getPagePermalink(page.slug, currentLocale), pathname)
+  );
+
+  if (page) {
+    const translations = await getPageTranslations(page);
+    return Promise.all(
+      I18N.locales.map(async (locale: string) => {
+        if (translations[locale]) {
+          return { locale, url: getPagePermalink(translations[locale].slug, locale), isAvailable: true };
+        }
+        const fallback = (await getFallbackPages(locale)).find(
+          (fallback) => fallback.translationKey === page.translationKey
+        );
+        if (fallback) {
+          return { locale, url: getPagePermalink(fallback.slug, locale), isAvailable: false };
+        }
+        return { locale, url: getHomePermalink(locale), isAvailable: false };
+      })
+    );
+  }
+
+  const pathWithoutLocale = getPathWithoutLocale(pathname);
+
+  // Blog list, category, tag, author, series and archive routes use per-locale bases; taxonomies only exist where posts use them
+  if (isBlogEnabled && getLocalizedBlogPath(pathWithoutLocale, currentLocale, currentLocale)) {
+    return Promise.all(
+      I18N.locales.map(async (locale: string) => {
+        if (locale === currentLocale) {
+          return { locale, url: pathname, isAvailable: true };
+        }
+
+        const { type, rest } = getLocalizedBlogPath(pathWithoutLocale, currentLocale, locale)!;
+        const [slug, ...pagination] = rest.split('/').filter(Boolean);
+        const isPaginated = type === 'blog' ? !!slug : pagination.length > 0;
+
+        if (type === 'archive') {
+          // Years and months only exist where posts were published then
+          const [year, month] = rest
+            .replace(/\/?page\/\d+$/, '')
+            .split('/')
+            .filter(Boolean)
+            .map(Number);
+          const isUsed =
+            !year ||
+            (await getListedPosts(locale)).some((post) => {
+              const date = getYearMonth(post.publishDate);
+              return date.year === year && (!month || date.month === month);
+            });
+          return {
+            locale,
+            url: isUsed ? getArchivePermalink(year, month, locale) : getArchivePermalink(undefined, undefined, locale),
+            isAvailable: isUsed && !/page\/\d+$/.test(rest),
+          };
+        }
+
+        if (type === 'series' && slug) {
+          // Series names are translated: follow the translations of its parts
+          const partKeys = new Set(
+            (await getListedPosts(currentLocale))
+              .filter((post) => post.series?.slug === slug)
+              .map((post) => post.translationKey)
+          );
+          const series = (await getListedPosts(locale)).find(
+            (post) => post.series && partKeys.has(post.translationKey)
+          )?.series;
+          if (series) {
+            return { locale, url: getPermalink(series.slug, 'series', locale), isAvailable: true };
+          }
+        } else if (type !== 'blog' && slug) {
+          const isUsed = (await getListedPosts(locale)).some((post) =>
+            type === 'category'
+              ? post.category?.slug === slug
+              : type === 'author'
+                ? post.authors?.some((author) => author.slug === slug)
+                : post.tags?.some((tag) => tag.slug === slug)
+          );
+          if (isUsed) {
+            return { locale, url: getPermalink(slug, type, locale), isAvailable: !isPaginated };
+          }
+        }
+
+        return { locale, url: getBlogPermalink(locale), isAvailable: type === 'blog' && !isPaginated };
+      })
+    );
+  }
+
+  return Promise.all(
+    I18N.locales.map(async (locale: string) => ({
+      locale,
+      url: getLocalizedPath(locale, await getLocalizedPathWithoutLocale(pathWithoutLocale, currentLocale, locale)),
+      isAvailable: true,
+    }))
+  );
+};
@@ -1,15 +1,45 @@
-import { I18N } from 'astrowind:config';
+import { APP_BLOG, SITE } from 'astrowind:config';
+import { getCurrentLocale, getLocaleSettings } from '~/utils/i18n';
 
-export const getFormatter = (locale: string) =>
-  new Intl.DateTimeFormat(locale, {
+/** Where a date is shown; each context has a style in `apps.blog.dates` */
+export type DateContext = 'list' | 'post' | 'archive';
+
+/**
+ * Date formatter of a locale, using its `lang` tag and the `format` of the context (the locale's `dateFormat`
+ * otherwise), in the `site.timezone` time zone
+ */
+export const getFormatter = (locale: string, context?: DateContext) => {
+  const { lang, dateFormat } = getLocaleSettings(locale);
+  return new Intl.DateTimeFormat(lang, {
+    ...((context && APP_BLOG?.dates?.[context]?.format) || dateFormat),
+    timeZone: SITE?.timezone || 'UTC',
+  });
+};
+
+export const getFormattedDate = (date: Date, locale: string = getCurrentLocale(), context?: DateContext): string =>
+  date ? getFormatter(locale, context).format(date) : '';
+
+/** Year and month (1-12) of a date in the `site.timezone` time zone, e.g. to group posts by month */
+export const getYearMonth = (date: Date): { year: number; month: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
     year: 'numeric',
-    month: 'short',
-    day: 'numeric',
+    month: 'numeric',
+    timeZone: SITE?.timezone || 'UTC',
+  }).formatToParts(date);
+  const getPart = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: getPart('year'), month: getPart('month') };
+};
+
+/** Name of a month (1-12) in a locale, with its year when given: `mayo`, `mayo de 2024` (es) */
+export const getMonthName = (month: number, locale: string = getCurrentLocale(), year?: number): string =>
+  new Intl.DateTimeFormat(getLocaleSettings(locale).lang, {
+    month: 'long',
+    ...(year ? { year: 'numeric' } : {}),
     timeZone: 'UTC',
-  });
+  }).format(new Date(Date.UTC(year ?? 2000, month - 1, 1)));
 
-export const getFormattedDate = (date: Date, locale: string = I18N.language): string =>
-  date ? getFormatter(locale).format(date) : '';
+/** Whether dates of a context are shown relative to now ("3 days ago") */
+export const isRelativeDate = (context: DateContext): boolean => !!APP_BLOG?.dates?.[context]?.relative;
 
 export const trim = (str = '', ch?: string) => {
   let start = 0,
@@ -19,36 +49,22 @@ export const trim = (str = '', ch?: string) => {
   return start > 0 || end < str.length ? str.substring(start, end) : str;
 };
 
-// Function to format a number in thousands (K) or millions (M) format depending on its value
-export const toUiAmount = (amount: number) => {
-  if (!amount) return 0;
-
-  let value: string;
-
-  if (amount >= 1000000000) {
-    const formattedNumber = (amount / 1000000000).toFixed(1);
-    if (Number(formattedNumber) === parseInt(formattedNumber)) {
-      value = parseInt(formattedNumber) + 'B';
-    } else {
-      value = formattedNumber + 'B';
-    }
-  } else if (amount >= 1000000) {
-    const formattedNumber = (amount / 1000000).toFixed(1);
-    if (Number(formattedNumber) === parseInt(formattedNumber)) {
-      value = parseInt(formattedNumber) + 'M';
-    } else {
-      value = formattedNumber + 'M';
-    }
-  } else if (amount >= 1000) {
-    const formattedNumber = (amount / 1000).toFixed(1);
-    if (Number(formattedNumber) === parseInt(formattedNumber)) {
-      value = parseInt(formattedNumber) + 'K';
-    } else {
-      value = formattedNumber + 'K';
-    }
-  } else {
-    value = Number(amount).toFixed(0);
-  }
-
-  return value;
-};
+/** Format a number in the compact notation of a locale, e.g. `18.5K` (en), `18,5 mil` (es) or `18.500` (de) */
+export const toUiAmount = (amount: number, locale: string): string =>
+  amount
+    ? new Intl.NumberFormat(getLocaleSettings(locale).lang, { notation: 'compact', maximumFractionDigits: 1 }).format(
+        amount
+      )
+    : '0';
+
+/**
+ * Number formatter for amounts of money of a currency (ISO 4217 code) in a locale, e.g. `$29` (en) or `29 $` (de);
+ * without decimals when `amount` is whole
+ */
+export const getCurrencyFormatter = (currency: string, locale: string, amount?: number) =>
+  new Intl.NumberFormat(getLocaleSettings(locale).lang, {
+    style: 'currency',
+    currency,
+    // Whole amounts without decimals: `$29` rather than `$29.00`
+    ...(amount !== undefined && Number.isInteger(amount) ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {}),
+  });
@@ -9,7 +9,11 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const configPath = path.join(__dirname, 'src/config.yaml');
 const configContent = fs.readFileSync(configPath, 'utf-8');
 const config = yaml.load(configContent);
-const locales = config.i18n?.locales;
+// Pseudo locales, generated by the astrowind integration in dev and preview builds (see `i18n.pseudo`), which sets
+// this flag from the Astro command before the catalogs are loaded
+const isDevOrPreview = process.env.ASTROWIND_DEV_OR_PREVIEW === '1';
+const pseudoLocales = config.i18n?.pseudo?.isEnabled && isDevOrPreview ? ['qps', 'qps-rtl'] : [];
+const locales = [...(config.i18n?.locales ?? []), ...pseudoLocales];
 const geminiKey = config.ai?.geminiApiKey;
 
 export default defineConfig({